@@ -1,463 +1,128 @@
 "use client";
 
-import type { Progress } from "@/types/progress";
+import type { PoopEntry } from "@/types/api";
+import type { AchievementCard } from "@/types/gamification";
 
 import { Suspense, useEffect, useMemo, useState } from "react";
-import { useSearchParams } from "next/navigation";
 
+import AchievementSheet from "@/components/AchievementSheet";
 import LoaderOverlay from "@/components/LoaderOverlay";
-import { AchievementCard } from "@/types/gamification";
-
-type OptionCfg = { label: string; emoji?: string; xp?: number };
-type GeoRules = {
-  home_behavior?: string;
-  require_location_for_lat_lng?: boolean;
-};
-type GeolocationConfig = {
-  enabled?: boolean;
-  accuracy?: "high" | "balanced" | "low" | string;
-  store_coordinates?: boolean;
-  fields?: string[];
-  allowed_locations?: string[];
-  blocked_locations?: string[];
-  rules?: GeoRules;
-  xp_bonus?: { new_place?: number; far_from_home?: number };
-  distance_thresholds?: { far_from_home_km?: number };
-};
-type AchievementDef = {
-  id: string;
-  title?: string;
-  label?: string;
-  emoji?: string;
-  description?: string;
-  year?: number;
-  condition?: Record<string, unknown>;
-  hidden?: boolean;
-};
-type GameConfig = {
-  base_xp?: number;
-  consistency?: Record<string, OptionCfg>;
-  size?: Record<string, OptionCfg>;
-  location?: Record<string, OptionCfg>;
-  geolocation?: GeolocationConfig;
-  achievements?: AchievementDef[];
-};
-type Stats = {
-  today: number;
-  total: number;
-  streak: number;
-  combo: number;
-  consistencyCounts?: Record<string, number>;
-  sizeCounts?: Record<string, number>;
-  locationCounts?: Record<string, number>;
-};
-type UserInfo = {
-  id: number;
-  username?: string;
-  name?: string;
-  photo_url?: string;
-};
-type UserInfoResponse = {
-  user?: UserInfo;
-  progress?: Progress;
-  stats?: {
-    poops_today?: number;
-    poops_total?: number;
-    total_poops?: number;
-    total?: number;
-    streak_days?: number;
-    best_combo?: number;
-    consistency_counts?: Record<string, number>;
-    size_counts?: Record<string, number>;
-    location_counts?: Record<string, number>;
-  };
-  achievements?: { id: string }[];
-  game_config?: GameConfig;
-};
-type UserStatsResponse = {
-  progress?: Progress;
-  stats?: {
-    total_poops?: number;
-    poops_total?: number;
-    poops_today?: number;
-    total?: number;
-    streak_days?: number;
-    best_combo?: number;
-    consistency_counts?: Record<string, number>;
-    size_counts?: Record<string, number>;
-    location_counts?: Record<string, number>;
-  };
-  achievements?: { id: string }[];
-};
-
-const apiBaseEnv = (process.env.NEXT_PUBLIC_API_BASE || "").replace(/\/$/, "");
-const STORAGE_USERNAME_KEY = "ts_username";
-const STORAGE_UID_KEY = "ts_uid";
-
-function normalizeBase(base?: string | null) {
-  if (!base) return "";
-  const trimmed = base.trim();
-
-  return trimmed.endsWith("/") ? trimmed.slice(0, -1) : trimmed;
-}
-
-function coerceBaseForHttps(base: string) {
-  if (typeof window === "undefined") return base;
-  if (!base.startsWith("http://")) return base;
-  if (window.location.protocol === "https:") {
-    try {
-      const url = new URL(base);
-
-      if (url.hostname === window.location.hostname) {
-        url.protocol = "https:";
-
-        return normalizeBase(url.toString());
-      }
-    } catch (err) {
-      console.warn("Invalid api base", err);
-    }
-
-    return "";
-  }
-
-  return base;
-}
-
-const DEFAULT_ACH: AchievementDef[] = [
-  { id: "first", title: "Prima Cacca", emoji: "💩" },
-  { id: "streak3", title: "On Fire (3+ giorni)", emoji: "🔥" },
-  { id: "office", title: "Office Master", emoji: "👔" },
-  { id: "legend", title: "Poop Legend", emoji: "🏆" },
-];
-
-function resolveApiBase() {
-  if (typeof window !== "undefined") {
-    const params = new URLSearchParams(window.location.search);
-    const qp =
-      params.get("api") || params.get("api_base") || params.get("apiBase");
-
-    if (qp) return normalizeBase(qp);
-
-    const globalBase = (window as any).__API_BASE__ || (window as any).API_BASE;
-
-    if (globalBase) return normalizeBase(String(globalBase));
-  }
-
-  if (apiBaseEnv) return coerceBaseForHttps(normalizeBase(apiBaseEnv));
-  if (typeof window === "undefined") return "";
-  const { origin, port } = window.location;
-
-  if (port === "3000" || port === "3001") {
-    return origin.replace(`:${port}`, ":8000");
-  }
-
-  return "";
-}
-
-function buildApiUrl(path: string, base?: string) {
-  const apiBase = coerceBaseForHttps(normalizeBase(base ?? resolveApiBase()));
-
-  return `${apiBase}${path}`;
-}
-
-function buildAchievements(
-  config: GameConfig,
-  unlocked: Set<string>,
-  stats?: Stats | null,
-): AchievementCard[] {
-  const defs =
-    config.achievements && config.achievements.length
-      ? config.achievements
-      : DEFAULT_ACH;
-
-  const resolveMetric = (key: string): number | undefined => {
-    if (!stats) return undefined;
-    if (key === "total_poops") return stats.total ?? 0;
-    if (key === "daily_streak") return stats.streak ?? 0;
-    if (key === "poops_in_one_day") return stats.combo ?? 0;
-    if (key.startsWith("type_")) {
-      const slug = key.replace("type_", "");
-
-      return stats.consistencyCounts?.[slug] ?? 0;
-    }
-    if (key.startsWith("size_")) {
-      const slug = key.replace("size_", "");
-
-      return stats.sizeCounts?.[slug] ?? 0;
-    }
-    if (key.startsWith("loc_")) {
-      const slug = key.replace("loc_", "");
-
-      return stats.locationCounts?.[slug] ?? 0;
-    }
-
-    return undefined;
-  };
-
-  const resolveLabel = (key: string, target: number) => {
-    if (key === "total_poops") return "Log totali";
-    if (key === "daily_streak") return "Streak di giorni";
-    if (key === "poops_in_one_day") return "Log nello stesso giorno";
-    if (key.startsWith("type_")) {
-      const slug = key.replace("type_", "");
-
-      return config.consistency?.[slug]?.label || slug;
-    }
-    if (key.startsWith("size_")) {
-      const slug = key.replace("size_", "");
-
-      return config.size?.[slug]?.label || slug;
-    }
-    if (key.startsWith("loc_")) {
-      const slug = key.replace("loc_", "");
-
-      return config.location?.[slug]?.label || slug;
-    }
-
-    return key.startsWith("weekend")
-      ? "Log nel weekend"
-      : key.startsWith("unique_locations")
-        ? "Location uniche"
-        : `Obiettivo (${target})`;
-  };
-
-  return defs.map((ach) => {
-    let progress: AchievementCard["progress"];
-
-    if (ach.condition && stats) {
-      for (const [key, target] of Object.entries(ach.condition)) {
-        if (typeof target !== "number" || target <= 0) continue;
-        const current = resolveMetric(key);
-
-        if (typeof current === "undefined") continue;
-        const pct = Math.max(0, Math.min(100, (current / target) * 100));
-
-        progress = {
-          current,
-          target,
-          pct,
-          label: resolveLabel(key, target),
-        };
-        break;
-      }
-    }
-
-    const unlockedCard = unlocked.has(ach.id);
-    const isHiddenLocked = ach.hidden && !unlockedCard;
-
-    if (progress && unlockedCard) {
-      progress = { ...progress, current: progress.target, pct: 100 };
-    }
-
-    return {
-      id: ach.id,
-      title: isHiddenLocked ? "??? Segreto" : ach.title || ach.label || ach.id,
-      emoji: isHiddenLocked ? "❔" : ach.emoji || "🏆",
-      description: isHiddenLocked
-        ? "Obiettivo nascosto. Sbloccalo per scoprire di cosa si tratta."
-        : ach.description,
-      unlocked: unlockedCard,
-      year: ach.year,
-      hidden: ach.hidden,
-      condition: ach.condition,
-      progress: isHiddenLocked ? undefined : progress,
-    };
-  });
-}
+import { useSession } from "@/components/SessionContext";
+import {
+  achievementSeasons,
+  AchievementSort,
+  buildAchievementCards,
+  EVERGREEN,
+  loadLogHistory,
+  needsLogHistory,
+  oldestAchievementYear,
+  rarityPercentages,
+  seasonKey,
+  sortAchievements,
+} from "@/lib/achievements";
+import { api, isAbortError } from "@/lib/api";
+import { formatLevelTitle, levelTitle } from "@/lib/levels";
 
 function PageContent() {
-  const searchParams = useSearchParams();
-
-  const [config, setConfig] = useState<GameConfig | null>(null);
-  const [playerName, setPlayerName] = useState("Player");
-  const [photoUrl, setPhotoUrl] = useState<string | null>(null);
-  const [progress, setProgress] = useState<Progress | null>(null);
-  const [stats, setStats] = useState<Stats>({
-    today: 0,
-    total: 0,
-    streak: 0,
-    combo: 0,
-    consistencyCounts: {},
-    sizeCounts: {},
-    locationCounts: {},
-  });
+  const {
+    config,
+    user,
+    playerName,
+    photoUrl,
+    progress,
+    stats,
+    unlockedIds,
+    unlockedAt,
+    loading,
+    error,
+  } = useSession();
   const [achievements, setAchievements] = useState<AchievementCard[]>([]);
-  const [unlockedIds, setUnlockedIds] = useState<Set<string>>(new Set());
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const [filter, setFilter] = useState<"all" | "unlocked" | "locked">("all");
-  const [toast, setToast] = useState<string | null>(null);
-
+  const [season, setSeason] = useState("all");
+  const [sort, setSort] = useState<AchievementSort>("default");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [logs, setLogs] = useState<PoopEntry[] | null>(null);
+  const [rarity, setRarity] = useState<Record<string, number>>({});
+  const currentTitle = levelTitle(config, progress?.level);
+  const userId = user?.id;
+  const needsHistory = needsLogHistory(config);
+  const minYear = oldestAchievementYear(config);
+
+  // Obiettivi con filtri orari/date servono lo storico completo dei log.
   useEffect(() => {
-    const load = async () => {
-      setLoading(true);
-      setError(null);
-
-      const apiBase = resolveApiBase();
-      const storedUsername =
-        typeof window !== "undefined"
-          ? localStorage.getItem(STORAGE_USERNAME_KEY)
-          : null;
-      const storedUid =
-        typeof window !== "undefined"
-          ? localStorage.getItem(STORAGE_UID_KEY)
-          : null;
-      let username =
-        searchParams.get("username") || storedUsername || undefined;
-      let uid = searchParams.get("uid") || storedUid || undefined;
-      const nameParam = searchParams.get("name") || undefined;
-
-      try {
-        const cfgRes = await fetch(buildApiUrl("/gaming-config", apiBase), {
-          cache: "no-store",
-          mode: "cors",
-        });
-        const cfgText = await cfgRes.text();
-
-        if (!cfgRes.ok) throw new Error(`HTTP ${cfgRes.status} ${cfgText}`);
-        const cfg = JSON.parse(cfgText) as GameConfig;
-
-        setConfig(cfg);
-      } catch (cfgErr) {
-        console.warn("Config load failed", cfgErr);
-        setError("Config non disponibile");
-      }
+    if (!userId || !needsHistory) return undefined;
+    const controller = new AbortController();
 
-      if (!uid && !username) {
-        setError("Nessun username/uid fornito");
-        setLoading(false);
+    loadLogHistory(userId, minYear, { signal: controller.signal })
+      .then(setLogs)
+      .catch((err) => {
+        if (isAbortError(err)) return;
+        console.warn("Achievement history load failed", err);
+      });
 
-        return;
-      }
+    return () => controller.abort();
+  }, [userId, needsHistory, minYear, stats.total]);
 
-      try {
-        const qs = uid
-          ? `uid=${encodeURIComponent(uid)}`
-          : `username=${encodeURIComponent(username as string)}`;
-        const userUrl = buildApiUrl(`/webapp/userinfo?${qs}`, apiBase);
-        const res = await fetch(userUrl, { cache: "no-store" });
-        const body = await res.text();
-
-        if (!res.ok) throw new Error(`HTTP ${res.status} ${body}`);
-        const data = JSON.parse(body) as UserInfoResponse;
-
-        const fallbackName = username ? `@${username}` : nameParam || "Player";
-
-        if (data.user) {
-          setPlayerName(
-            data.user.username
-              ? `@${data.user.username}`
-              : data.user.name || fallbackName,
-          );
-          if (data.user.photo_url) setPhotoUrl(data.user.photo_url);
-        } else {
-          setPlayerName(fallbackName);
-        }
-
-        if (typeof window !== "undefined") {
-          if (username) localStorage.setItem(STORAGE_USERNAME_KEY, username);
-          if (uid) localStorage.setItem(STORAGE_UID_KEY, uid);
-        }
-
-        if (data.progress) setProgress(data.progress);
-
-        const userStats = data.stats;
-
-        if (userStats) {
-          setStats((prev) => ({
-            ...prev,
-            today: userStats.poops_today ?? 0,
-            total: userStats.total_poops ?? userStats.poops_total ?? 0,
-            streak: userStats.streak_days ?? 0,
-            combo: userStats.best_combo ?? 0,
-            consistencyCounts:
-              userStats.consistency_counts || prev.consistencyCounts,
-            sizeCounts: userStats.size_counts || prev.sizeCounts,
-            locationCounts: userStats.location_counts || prev.locationCounts,
-          }));
-        }
-
-        const unlocked = new Set<string>(
-          (data.achievements || []).map((a) => a.id),
-        );
-
-        if (data.user?.id) {
-          const statsRes = await fetch(
-            buildApiUrl(`/user/${data.user.id}/stats`, apiBase),
-            { cache: "no-store" },
-          );
-          const statsText = await statsRes.text();
-
-          if (statsRes.ok) {
-            const statsData = JSON.parse(statsText) as UserStatsResponse;
-
-            if (statsData.progress) setProgress(statsData.progress);
-            const st = statsData.stats || {};
-
-            setStats((prev) => ({
-              ...prev,
-              total:
-                st.total_poops ??
-                st.poops_total ??
-                prev.total ??
-                data.stats?.total ??
-                0,
-              today: st.poops_today ?? prev.today,
-              streak: st.streak_days ?? prev.streak,
-              combo: st.best_combo ?? prev.combo,
-              consistencyCounts:
-                st.consistency_counts || data.stats?.consistency_counts,
-              sizeCounts: st.size_counts || data.stats?.size_counts,
-              locationCounts: st.location_counts || data.stats?.location_counts,
-            }));
-            statsData.achievements?.forEach((a) => unlocked.add(a.id));
-          } else {
-            console.warn("Stats fallback", statsRes.status, statsText);
-          }
-        }
-
-        if (data.game_config) {
-          setConfig((prev) => prev || data.game_config || null);
-        }
-
-        setUnlockedIds(unlocked);
-      } catch (err) {
-        console.warn("Achievements page load failed", err);
-        setError("Impossibile caricare i dati utente");
-      } finally {
-        setLoading(false);
-      }
-    };
+  useEffect(() => {
+    const controller = new AbortController();
+
+    api
+      .getAchievementRarity({ signal: controller.signal })
+      .then((data) => setRarity(rarityPercentages(data)))
+      .catch((err) => {
+        if (isAbortError(err)) return;
+        console.warn("Achievement rarity load failed", err);
+      });
 
-    load();
-  }, [searchParams]);
+    return () => controller.abort();
+  }, []);
 
   useEffect(() => {
     if (!config) return;
-    setAchievements(buildAchievements(config, unlockedIds, stats));
-  }, [config, unlockedIds, stats]);
+    setAchievements(
+      buildAchievementCards(config, unlockedIds, stats, logs).map((ach) => ({
+        ...ach,
+        unlocked_at: ach.unlocked ? unlockedAt[ach.id] : undefined,
+        rarity_pct: rarity[ach.id],
+      })),
+    );
+  }, [config, unlockedIds, unlockedAt, stats, logs, rarity]);
 
   const unlockedCount = useMemo(
     () => achievements.filter((ach) => ach.unlocked).length,
     [achievements],
   );
 
-  const filteredAchievements = useMemo(() => {
-    if (filter === "unlocked") return achievements.filter((a) => a.unlocked);
-    if (filter === "locked") return achievements.filter((a) => !a.unlocked);
+  const seasons = useMemo(
+    () => achievementSeasons(achievements),
+    [achievements],
+  );
+  const hasYearly = seasons.some((s) => s.key !== EVERGREEN);
 
-    return achievements;
-  }, [achievements, filter]);
+  const filteredAchievements = useMemo(() => {
+    const inSeason =
+      season === "all"
+        ? achievements
+        : achievements.filter((a) => seasonKey(a) === season);
+    // Gli scaduti non sono più "da fare": restano visibili solo in Tutti.
+    const visible =
+      filter === "unlocked"
+        ? inSeason.filter((a) => a.unlocked)
+        : filter === "locked"
+          ? inSeason.filter((a) => !a.unlocked && !a.expired)
+          : inSeason;
+
+    return sortAchievements(visible, sort);
+  }, [achievements, season, filter, sort]);
+
+  const selected = achievements.find((a) => a.id === selectedId) || null;
 
   const handleFilter = (val: "all" | "unlocked" | "locked") => {
     setFilter(val);
   };
 
   const handleCardClick = (ach: AchievementCard) => {
-    if (ach.unlocked) setToast(`🏆 Hai sbloccato "${ach.title}"`);
-    else if (ach.hidden) setToast("🤫 Obiettivo segreto: continua a giocare!");
-    else setToast(`💪 Continua!`);
-    setTimeout(() => setToast(null), 2600);
+    setSelectedId(ach.id);
   };
 
   const progressPct = (ach: AchievementCard) =>
@@ -478,7 +143,8 @@ function PageContent() {
           </div>
           <h1 className="player-name">{playerName}</h1>
           <div className="player-level">
-            Livello {progress?.level ?? "?"} • Poop Master
+            Livello {progress?.level ?? "?"}
+            {currentTitle ? ` • ${formatLevelTitle(currentTitle)}` : ""}
           </div>
         </div>
 
@@ -496,6 +162,38 @@ function PageContent() {
         </div>
 
         <div className="filter-container">
+          {hasYearly ? (
+            <div className="season-tabs" role="tablist">
+              <button
+                aria-selected={season === "all"}
+                className={`season-tab ${season === "all" ? "active" : ""}`}
+                role="tab"
+                type="button"
+                onClick={() => setSeason("all")}
+              >
+                Tutte
+                <small>
+                  {unlockedCount}/{achievements.length}
+                </small>
+              </button>
+              {seasons.map((s) => (
+                <button
+                  key={s.key}
+                  aria-selected={season === s.key}
+                  className={`season-tab ${season === s.key ? "active" : ""}`}
+                  role="tab"
+                  type="button"
+                  onClick={() => setSeason(s.key)}
+                >
+                  {s.key === EVERGREEN ? "♾️ " : "📅 "}
+                  {s.label}
+                  <small>
+                    {s.unlocked}/{s.total}
+                  </small>
+                </button>
+              ))}
+            </div>
+          ) : null}
           <div className="segmented-control">
             <button
               className={`segment-btn ${filter === "all" ? "active" : ""}`}
@@ -519,6 +217,18 @@ function PageContent() {
               Da fare
             </button>
           </div>
+          <label className="sort-row">
+            Ordina per
+            <select
+              value={sort}
+              onChange={(e) => setSort(e.target.value as AchievementSort)}
+            >
+              <option value="default">Predefinito</option>
+              <option value="rarity">Rarità</option>
+              <option value="progress">Progresso</option>
+              <option value="unlocked">Data di sblocco</option>
+            </select>
+          </label>
         </div>
 
         <div className="achievements-list">
@@ -530,25 +240,29 @@ function PageContent() {
                 key={ach.id}
                 className={`card ${ach.unlocked ? "unlocked" : "locked"} ${
                   ach.hidden && !ach.unlocked ? "secret" : ""
-                }`}
+                } ${ach.expired ? "expired" : ""}`}
                 onClick={() => handleCardClick(ach)}
               >
                 <div className="card-header">
                   <div className="card-icon">{ach.emoji}</div>
                   <div
                     className={`status-pill ${
-                      ach.hidden
-                        ? "pill-secret"
-                        : ach.unlocked
-                          ? "pill-unlocked"
-                          : "pill-locked"
+                      ach.expired
+                        ? "pill-expired"
+                        : ach.hidden
+                          ? "pill-secret"
+                          : ach.unlocked
+                            ? "pill-unlocked"
+                            : "pill-locked"
                     }`}
                   >
-                    {ach.hidden
-                      ? "Segreto"
-                      : ach.unlocked
-                        ? "Completato"
-                        : "In corso"}
+                    {ach.expired
+                      ? "Scaduto"
+                      : ach.hidden
+                        ? "Segreto"
+                        : ach.unlocked
+                          ? "Completato"
+                          : "In corso"}
                   </div>
                 </div>
                 <h3 className="card-title">
@@ -575,6 +289,21 @@ function PageContent() {
                         style={{ width: `${progressPct(ach)}%` }}
                       />
                     </div>
+                    {ach.progress.parts ? (
+                      <ul className="progress-parts">
+                        {ach.progress.parts.map((part, idx) => (
+                          <li key={`${part.label}-${idx}`}>
+                            <span>
+                              {part.met ? "✅" : "⬜"} {part.label}
+                            </span>
+                            <span className="prog-val">
+                              {Math.min(part.current, part.target)} /{" "}
+                              {part.target}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    ) : null}
                   </div>
                 ) : null}
               </div>
@@ -584,7 +313,11 @@ function PageContent() {
           )}
         </div>
 
-        {toast ? <div className="toast show">{toast}</div> : null}
+        <AchievementSheet
+          achievement={selected}
+          config={config}
+          onClose={() => setSelectedId(null)}
+        />
 
         <LoaderOverlay
           emoji="🚀"
@@ -746,6 +479,39 @@ function PageContent() {
             pointer-events: none;
           }
 
+          .season-tabs {
+            display: flex;
+            gap: 6px;
+            overflow-x: auto;
+            margin-bottom: 10px;
+            padding-bottom: 2px;
+          }
+
+          .season-tab {
+            flex: 0 0 auto;
+            display: inline-flex;
+            align-items: center;
+            gap: 6px;
+            border: 2px solid #3e2723;
+            border-radius: 99px;
+            background: #fff;
+            padding: 4px 12px;
+            font-weight: 800;
+            font-size: 0.8rem;
+            color: #6d4c41;
+            cursor: pointer;
+          }
+
+          .season-tab small {
+            font-weight: 900;
+            color: #e65100;
+          }
+
+          .season-tab.active {
+            background: #ffca28;
+            color: #3e2723;
+          }
+
           .segmented-control {
             background: #eee;
             border: 2px solid #3e2723;
@@ -774,6 +540,27 @@ function PageContent() {
             border: 1px solid #ddd;
           }
 
+          .sort-row {
+            display: flex;
+            align-items: center;
+            justify-content: flex-end;
+            gap: 8px;
+            margin-top: 8px;
+            font-size: 0.8rem;
+            font-weight: 800;
+            color: #6d4c41;
+          }
+
+          .sort-row select {
+            border: 2px solid #3e2723;
+            border-radius: 10px;
+            padding: 4px 8px;
+            background: #fff;
+            font-family: "Nunito", sans-serif;
+            font-weight: 800;
+            color: #3e2723;
+          }
+
           .achievements-list {
             padding: 0 16px 24px;
             display: flex;
@@ -849,6 +636,17 @@ function PageContent() {
             border-color: #4a148c;
           }
 
+          .card.expired {
+            opacity: 0.6;
+            filter: grayscale(0.8);
+          }
+
+          .pill-expired {
+            background: #fff;
+            color: #616161;
+            border-color: #616161;
+          }
+
           .card-title {
             font-size: 1.1rem;
             margin-bottom: 4px;
@@ -901,6 +699,24 @@ function PageContent() {
             border-right: 2px solid #3e2723;
           }
 
+          .progress-parts {
+            list-style: none;
+            margin: 6px 0 0;
+            padding: 0;
+            display: flex;
+            flex-direction: column;
+            gap: 2px;
+          }
+
+          .progress-parts li {
+            display: flex;
+            justify-content: space-between;
+            gap: 8px;
+            font-size: 0.72rem;
+            font-weight: 700;
+            color: #6d4c41;
+          }
+
           .card.locked .progress-track {
             background: #e0e0e0;
             border-color: #9e9e9e;
@@ -910,24 +726,6 @@ function PageContent() {
             border-color: #9e9e9e;
           }
 
-          .toast {
-            position: fixed;
-            bottom: 20px;
-            left: 50%;
-            transform: translateX(-50%);
-            background: #323232;
-            color: #fff;
-            padding: 12px 20px;
-            border-radius: 30px;
-            font-weight: 700;
-            font-size: 0.9rem;
-            box-shadow: 0 4px 12px rgba(0, 0, 0, 0.3);
-            z-index: 200;
-            width: max-content;
-            max-width: 90%;
-            text-align: center;
-          }
-
           .empty {
             padding: 40px 0;
             text-align: center;
@@ -1,63 +1,128 @@
 "use client";
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import type { FeatureGroup, Map, PopupEvent } from "leaflet";
+import { createPortal } from "react-dom";
+import type {
+  FeatureGroup,
+  LatLngBounds,
+  Map,
+  Marker,
+  Popup,
+  PopupEvent,
+} from "leaflet";
+import type { GeoCluster, GeoPoopWithUser } from "@/types/api";
 import "leaflet/dist/leaflet.css";
 
+import GeoFilterDrawer from "@/components/GeoFilterDrawer";
+import GeoPoopPopup from "@/components/GeoPoopPopup";
 import { useHeaderState } from "@/components/HeaderContext";
-
-type RawPoop = {
-  id: number;
-  user_id: number;
-  consistency: string;
-  size: string;
-  location: string;
-  note?: string | null;
-  xp_awarded: number;
-  lat: number;
-  lng: number;
-  accuracy?: number;
-  created_at: string;
+import { useSession } from "@/components/SessionContext";
+import { api, isAbortError } from "@/lib/api";
+import {
+  clusterAtZoom,
+  groupByPlace,
+  isSinglePlace,
+  PointCluster,
+  toGeoPoints,
+} from "@/lib/geoCluster";
+import {
+  activeGeoFilterCount,
+  DEFAULT_GEO_FILTERS,
+  GeoFilters,
+  geoFilterPredicate,
+} from "@/lib/geoFilters";
+import { createHeatOverlay, HeatOverlay } from "@/lib/heatLayer";
+import { publicGeoEntry } from "@/lib/privacy";
+
+// Popup aperto: il contenuto è renderizzato da React in `container`.
+type OpenPopup = {
+  key: string;
+  container: HTMLDivElement;
+  entries: GeoPoopWithUser[];
+  popup: Popup;
 };
 
-type PoopWithUser = {
-  poop: RawPoop;
-  username: string;
-};
+type LayerMode = "markers" | "clusters" | "heat";
+type HeatWeight = "count" | "xp" | "size";
 
-type Cluster = {
-  lat: number;
-  lng: number;
-  poops: PoopWithUser[];
-};
+const LAYER_MODES: Array<{ id: LayerMode; label: string }> = [
+  { id: "markers", label: "📍 Marker" },
+  { id: "clusters", label: "🫧 Cluster" },
+  { id: "heat", label: "🔥 Heat" },
+];
 
-const CONFIG: {
-  consistency: Record<string, { label: string; emoji: string }>;
-  size: Record<string, { label: string; emoji: string }>;
-} = {
-  consistency: {
-    normal: { label: "Normale", emoji: "🙂" },
-    liquid: { label: "Liquida", emoji: "🌊" },
-    hard: { label: "Dura", emoji: "🪨" },
-    spicy: { label: "Piccante", emoji: "🌶️" },
-    soft: { label: "Soft", emoji: "🌸" },
-  },
-  size: {
-    small: { label: "Piccola", emoji: "🤏" },
-    medium: { label: "Media", emoji: "👌" },
-    large: { label: "Enorme", emoji: "🐘" },
-    XL: { label: "Extra Large", emoji: "💪" },
-  },
-};
+const HEAT_WEIGHTS: Array<{ id: HeatWeight; label: string }> = [
+  { id: "count", label: "Conteggio" },
+  { id: "xp", label: "XP" },
+  { id: "size", label: "Taglia" },
+];
+
+// Stessa posizione e stessi log: il marker (e il suo popup) si può riusare.
+function markerKey(cluster: PointCluster) {
+  const { entries } = cluster;
+  const first = entries[0]?.poop.id;
+  const last = entries[entries.length - 1]?.poop.id;
+
+  return `${cluster.key}#${entries.length}#${first}#${last}`;
+}
+
+const TIMELINE_STEPS = 80;
+const TIMELINE_TICK_MS = 100;
 
-const GEO_API = "https://timeshit-be.onrender.com/poops/geolocated?limit=500";
+// Peso di un log nella heatmap; per la taglia conta l'ordine in GameConfig.
+function heatWeightOf(
+  entry: GeoPoopWithUser,
+  mode: HeatWeight,
+  sizeKeys: string[],
+) {
+  if (mode === "xp") return Math.max(entry.poop.xp_awarded || 0, 1);
+  if (mode === "size") {
+    const rank = sizeKeys.indexOf(entry.poop.size);
+
+    return rank >= 0 ? rank + 1 : 1;
+  }
+
+  return 1;
+}
+
+const DEFAULT_GEO_LIMIT = 500;
+const MAX_GEO_PAGES = 20;
+
+// Page size: ?geo_limit=… > NEXT_PUBLIC_GEO_LIMIT > 500.
+function resolveGeoLimit() {
+  const fromQuery =
+    typeof window !== "undefined"
+      ? Number(new URLSearchParams(window.location.search).get("geo_limit"))
+      : NaN;
+  const fromEnv = Number(process.env.NEXT_PUBLIC_GEO_LIMIT);
+
+  if (fromQuery > 0) return Math.floor(fromQuery);
+  if (fromEnv > 0) return Math.floor(fromEnv);
+
+  return DEFAULT_GEO_LIMIT;
+}
 
 export default function GeoPoopPage() {
   const { state } = useHeaderState();
-  const [clusters, setClusters] = useState<Cluster[]>([]);
+  const { config, user } = useSession();
+  const [clusters, setClusters] = useState<GeoCluster[]>([]);
+  const [openPopup, setOpenPopup] = useState<OpenPopup | null>(null);
+  const [layerMode, setLayerMode] = useState<LayerMode>("clusters");
+  const [heatWeight, setHeatWeight] = useState<HeatWeight>("count");
+  const [filters, setFilters] = useState<GeoFilters>(DEFAULT_GEO_FILTERS);
+  const [filtersOpen, setFiltersOpen] = useState(false);
+  // Istante massimo mostrato dalla timeline; null = nessun limite.
+  const [cutoff, setCutoff] = useState<number | null>(null);
+  const [playing, setPlaying] = useState(false);
   const mapContainer = useRef<HTMLDivElement | null>(null);
   const mapRef = useRef<Map | null>(null);
   const groupRef = useRef<FeatureGroup | null>(null);
+  const markersRef = useRef<Record<string, Marker>>({});
+  const boundsRef = useRef<LatLngBounds | null>(null);
+  const fittedPointsRef = useRef<unknown>(null);
+  const heatRef = useRef<HeatOverlay | null>(null);
+  const renderRef = useRef<(() => void) | null>(null);
+  const [mapReady, setMapReady] = useState(false);
   const leafletRef = useRef<typeof import("leaflet") | null>(null);
   const leafletLoaderRef = useRef<Promise<typeof import("leaflet")> | null>(null);
 
@@ -71,58 +136,153 @@ export default function GeoPoopPage() {
     return leafletLoaderRef.current;
   }, []);
 
-  const totalLogs = useMemo(
-    () => clusters.reduce((acc, cluster) => acc + cluster.poops.length, 0),
-    [clusters],
-  );
-
-  const getEmoji = (type: string, size: string) => {
-    if (type === "spicy") return CONFIG.consistency.spicy.emoji;
-    if (CONFIG.size[size]) return CONFIG.size[size].emoji;
-    if (CONFIG.consistency[type]) return CONFIG.consistency[type].emoji;
-
-    return "💩";
-  };
-
-  const formatDate = (dateStr: string) =>
-    new Date(dateStr).toLocaleString("it-IT", {
-      day: "2-digit",
-      month: "2-digit",
-      year: "numeric",
-      hour: "2-digit",
-      minute: "2-digit",
-    });
-
   useEffect(() => {
     const controller = new AbortController();
+    const limit = resolveGeoLimit();
+
+    // Scarica tutte le pagine: i cluster con le stesse coordinate vengono
+    // fusi e i log già visti ignorati (backend senza offset = stop).
+    const loadAll = async () => {
+      const merged: Record<string, GeoCluster> = {};
+      const order: string[] = [];
+      const seen = new Set<number>();
+
+      for (let page = 0; page < MAX_GEO_PAGES; page += 1) {
+        const data = await api.getGeolocatedPoops(
+          { limit, offset: page * limit },
+          { signal: controller.signal },
+        );
+        let received = 0;
+        let added = 0;
 
-    fetch(GEO_API, { signal: controller.signal })
-      .then((res) => res.json())
-      .then((data: Cluster[]) => {
-        setClusters(
-          data.map((item) => ({
-            lat: item.lat,
-            lng: item.lng,
-            poops: item.poops.map((entry) => ({
+        data.forEach((item) => {
+          const key = `${item.lat},${item.lng}`;
+
+          if (!merged[key]) {
+            merged[key] = { lat: item.lat, lng: item.lng, poops: [] };
+            order.push(key);
+          }
+          item.poops.forEach((entry) => {
+            received += 1;
+            if (seen.has(entry.poop.id)) return;
+            seen.add(entry.poop.id);
+            added += 1;
+            merged[key].poops.push({
               poop: entry.poop,
               username: entry.username,
-            })),
-          })),
+            });
+          });
+        });
+
+        setClusters(
+          order
+            .filter((key) => merged[key].poops.length)
+            .map((key) => ({ ...merged[key], poops: [...merged[key].poops] })),
         );
-      })
-      .catch(() => {});
+        if (received < limit || added === 0) break;
+      }
+    };
+
+    loadAll().catch((err) => {
+      if (!isAbortError(err)) console.warn("GeoPoop load failed", err);
+    });
 
     return () => controller.abort();
   }, []);
 
+  // Log privati altrui esclusi e autori anonimi senza username, anche se il
+  // backend li avesse inviati.
+  const visibleClusters = useMemo(
+    () =>
+      clusters
+        .map((cluster) => ({
+          ...cluster,
+          poops: cluster.poops
+            .map((entry) => publicGeoEntry(entry, user?.id))
+            .filter((entry): entry is GeoPoopWithUser => entry !== null),
+        }))
+        .filter((cluster) => cluster.poops.length),
+    [clusters, user?.id],
+  );
+  const allPoints = useMemo(
+    () => toGeoPoints(visibleClusters),
+    [visibleClusters],
+  );
+  const friends = useMemo(
+    () =>
+      Array.from(
+        new Set(allPoints.map((p) => p.entry.username).filter(Boolean)),
+      ).sort(),
+    [allPoints],
+  );
+  const timeRange = useMemo(() => {
+    if (!allPoints.length) return null;
+    let min = Infinity;
+    let max = -Infinity;
+
+    allPoints.forEach((p) => {
+      if (Number.isNaN(p.time)) return;
+      min = Math.min(min, p.time);
+      max = Math.max(max, p.time);
+    });
+
+    return min <= max ? { min, max } : null;
+  }, [allPoints]);
+  const filteredPoints = useMemo(() => {
+    const matches = geoFilterPredicate(filters, user?.id);
+
+    return allPoints.filter((p) => matches(p.entry));
+  }, [allPoints, filters, user?.id]);
+  const points = useMemo(
+    () =>
+      cutoff === null
+        ? filteredPoints
+        : filteredPoints.filter((p) => p.time <= cutoff),
+    [filteredPoints, cutoff],
+  );
+  const places = useMemo(() => groupByPlace(points), [points]);
+  const totalLogs = points.length;
+  const activeFilters = activeGeoFilterCount(filters);
+  const sizeKeys = useMemo(() => Object.keys(config?.size || {}), [config]);
+
   useEffect(() => {
-    if (typeof window === "undefined" || !mapContainer.current) return;
+    if (!playing || !timeRange) return undefined;
+    const step = Math.max((timeRange.max - timeRange.min) / TIMELINE_STEPS, 1);
+    const timer = window.setInterval(() => {
+      setCutoff((prev) =>
+        Math.min((prev ?? timeRange.min) + step, timeRange.max),
+      );
+    }, TIMELINE_TICK_MS);
+
+    return () => window.clearInterval(timer);
+  }, [playing, timeRange]);
 
+  useEffect(() => {
+    if (playing && timeRange && cutoff !== null && cutoff >= timeRange.max) {
+      setPlaying(false);
+    }
+  }, [playing, timeRange, cutoff]);
+
+  const togglePlay = () => {
+    if (!timeRange) return;
+    if (playing) {
+      setPlaying(false);
+
+      return;
+    }
+    // Ripartendo dalla fine, l'animazione ricomincia dal primo log.
+    if (cutoff === null || cutoff >= timeRange.max) setCutoff(timeRange.min);
+    setPlaying(true);
+  };
+
+  // Mappa, gruppo dei marker e heatmap nascono una volta sola: filtri e
+  // timeline aggiornano solo i dati nell'effetto successivo.
+  useEffect(() => {
     const container = mapContainer.current;
-    if (!container) return;
 
+    if (!container) return undefined;
     let isCancelled = false;
-    let handlePopup: ((event: PopupEvent) => void) | null = null;
+    const onViewChange = () => renderRef.current?.();
 
     loadLeaflet().then((L) => {
       if (isCancelled) return;
@@ -143,133 +303,145 @@ export default function GeoPoopPage() {
           opacity: 0.7,
         }).addTo(mapRef.current);
       }
-
       if (!groupRef.current) {
         groupRef.current = L.featureGroup().addTo(mapRef.current);
       }
+      if (!heatRef.current) heatRef.current = createHeatOverlay(L);
+      mapRef.current.on("zoomend moveend", onViewChange);
+      setMapReady(true);
+    });
 
-      const group = groupRef.current;
-      group.clearLayers();
-
-      clusters.forEach((cluster) => {
-        const entries = cluster.poops;
-        const primary = entries[0];
-        const poopEmoji = "💩";
-        const iconHtml =
-          entries.length === 1
-            ? `<div class="custom-marker">${poopEmoji}</div>`
-            : `<div class="custom-counter"><span class="counter-num">${entries.length}</span></div>`;
-
-        const icon = L.divIcon({
-          className: "custom-div-icon",
-          html: iconHtml,
-          iconSize: [46, 46],
-          iconAnchor: [23, 46],
-          popupAnchor: [0, -48],
-        });
-
-        const payload = encodeURIComponent(JSON.stringify(entries));
-
-        const locationLabel = primary.poop.location || "Posizione sconosciuta";
-        const popup = `
-          <div class="popup-card">
-            <div class="popup-header">
-              <span class="header-emoji">${poopEmoji}</span>
-              ${locationLabel}
-            </div>
-            <div class="popup-body">
-              <div class="popup-user">Utente: ${primary.username || "Anonimo"}</div>
-              <span class="popup-emoji">${poopEmoji}</span>
-              <div class="popup-details">
-                ${CONFIG.consistency[primary.poop.consistency]?.label || primary.poop.consistency} •
-                ${CONFIG.size[primary.poop.size]?.label || primary.poop.size}
-              </div>
-              <div class="popup-slider" data-poops="${payload}" data-count="${entries.length}">
-                <button class="popup-nav" data-direction="prev" aria-label="Prev">‹</button>
-                <div class="popup-slide"></div>
-                <button class="popup-nav" data-direction="next" aria-label="Next">›</button>
-              </div>
-              <div class="popup-date">${formatDate(primary.poop.created_at)}</div>
-            </div>
-          </div>
-        `;
+    return () => {
+      isCancelled = true;
+      mapRef.current?.off("zoomend moveend", onViewChange);
+    };
+  }, [loadLeaflet]);
 
-        const marker = L.marker([cluster.lat, cluster.lng], { icon }).bindPopup(popup);
-        marker.addTo(group);
+  useEffect(() => {
+    const L = leafletRef.current;
+    const map = mapRef.current;
+    const group = groupRef.current;
+    const heat = heatRef.current;
+
+    if (!mapReady || !L || !map || !group || !heat) return;
+
+    const buildMarker = (cluster: PointCluster) => {
+      const count = cluster.entries.length;
+      const poopEmoji = "💩";
+      const iconHtml =
+        count === 1
+          ? `<div class="custom-marker">${poopEmoji}</div>`
+          : `<div class="custom-counter"><span class="counter-num">${count > 999 ? "999+" : count}</span></div>`;
+
+      const icon = L.divIcon({
+        className: "custom-div-icon",
+        html: iconHtml,
+        iconSize: [46, 46],
+        iconAnchor: [23, 46],
+        popupAnchor: [0, -48],
       });
+      const marker = L.marker([cluster.lat, cluster.lng], { icon });
+
+      // Bolla con log in punti diversi: il tap zooma finché non si divide.
+      if (!isSinglePlace(cluster) && map.getZoom() < map.getMaxZoom()) {
+        marker.on("click", () =>
+          map.fitBounds(
+            [
+              [cluster.south, cluster.west],
+              [cluster.north, cluster.east],
+            ],
+            { padding: [50, 50] },
+          ),
+        );
 
-      if (group.getLayers().length) {
-        mapRef.current!.fitBounds(group.getBounds(), { padding: [50, 50] });
+        return marker;
       }
 
-      handlePopup = (event: PopupEvent) => {
-        const popupEl = event.popup.getElement();
-        if (!popupEl) return;
-        const slider = popupEl.querySelector<HTMLElement>(".popup-slider");
-        const slideArea = popupEl.querySelector<HTMLElement>(".popup-slide");
-        if (!slider || !slideArea) return;
-
-        let entries: PoopWithUser[] = [];
-        try {
-          entries = JSON.parse(decodeURIComponent(slider.dataset.poops || ""));
-        } catch (err) {
-          return;
-        }
-
-        if (!entries.length) return;
-
-        slider.dataset.count = String(entries.length);
-
-        let currentIndex = 0;
+      const popupEl = document.createElement("div");
+
+      marker.bindPopup(popupEl);
+      marker.on("popupopen", (event: PopupEvent) =>
+        setOpenPopup({
+          key: cluster.key,
+          container: popupEl,
+          entries: cluster.entries,
+          popup: event.popup,
+        }),
+      );
+      marker.on("popupclose", () =>
+        setOpenPopup((prev) => (prev?.container === popupEl ? null : prev)),
+      );
+
+      return marker;
+    };
 
-        const renderSlide = () => {
-          const entry = entries[currentIndex];
-          slideArea.innerHTML = `
-            ${entry.poop.note ? `<div class="popup-note">“${entry.poop.note}”</div>` : ""}
-          `;
-          const dateEl = popupEl.querySelector<HTMLElement>(".popup-date");
-          if (dateEl) {
-            dateEl.textContent = formatDate(entry.poop.created_at);
-          }
-        };
-
-        renderSlide();
-
-        const navButtons = Array.from(slider.querySelectorAll<HTMLButtonElement>(".popup-nav"));
-        const handlers: { btn: HTMLButtonElement; handler: () => void }[] = [];
-
-        navButtons.forEach((btn) => {
-          const handler = () => {
-            currentIndex =
-              btn.dataset.direction === "next"
-                ? (currentIndex + 1) % entries.length
-                : (currentIndex - 1 + entries.length) % entries.length;
-            renderSlide();
-          };
-          btn.addEventListener("click", handler);
-          btn.addEventListener("touchend", handler);
-          handlers.push({ btn, handler });
-        });
+    // Ricalcola i cluster per lo zoom corrente e disegna solo quelli vicini
+    // alla vista; i marker con la stessa chiave restano (popup aperti inclusi).
+    // La chiave include i log del gruppo: se cambiano, il marker si rifà.
+    renderRef.current = () => {
+      if (layerMode === "heat") return;
+      const visible = map.getBounds().pad(0.5);
+      const current = markersRef.current;
+      const next: Record<string, Marker> = {};
+      const source =
+        layerMode === "markers" ? places : clusterAtZoom(points, map.getZoom());
+
+      source.forEach((cluster) => {
+        if (!visible.contains([cluster.lat, cluster.lng])) return;
+        const key = markerKey(cluster);
+
+        next[key] = current[key] || buildMarker(cluster).addTo(group);
+      });
+      Object.keys(current).forEach((key) => {
+        if (!next[key]) group.removeLayer(current[key]);
+      });
+      markersRef.current = next;
+    };
 
-        event.popup.once("remove", () => {
-          handlers.forEach(({ btn, handler }) => {
-            btn.removeEventListener("click", handler);
-            btn.removeEventListener("touchend", handler);
-          });
-        });
-      };
+    // "Tutti" inquadra i log filtrati; lo zoom automatico scatta solo
+    // quando arrivano nuovi dati, non a ogni filtro o passo della timeline.
+    boundsRef.current = filteredPoints.length
+      ? L.latLngBounds(
+          filteredPoints.map((p) => [p.lat, p.lng] as [number, number]),
+        )
+      : null;
+    if (fittedPointsRef.current !== allPoints) {
+      fittedPointsRef.current = allPoints;
+      if (boundsRef.current) {
+        map.fitBounds(boundsRef.current, { padding: [50, 50] });
+      }
+    }
 
-      mapRef.current?.on("popupopen", handlePopup);
-    });
+    if (layerMode === "heat") {
+      group.clearLayers();
+      markersRef.current = {};
+      heat.addTo(map);
+      heat.setPoints(
+        points.map((p) => ({
+          lat: p.lat,
+          lng: p.lng,
+          weight: heatWeightOf(p.entry, heatWeight, sizeKeys),
+        })),
+      );
 
-    return () => {
-      isCancelled = true;
-      if (handlePopup && mapRef.current) {
-        mapRef.current.off("popupopen", handlePopup);
-      }
-      groupRef.current?.clearLayers();
-    };
-  }, [clusters, loadLeaflet]);
+      return;
+    }
+    heat.remove();
+    renderRef.current();
+  }, [
+    mapReady,
+    allPoints,
+    filteredPoints,
+    points,
+    places,
+    layerMode,
+    heatWeight,
+    sizeKeys,
+  ]);
+
+  const relayoutPopup = useCallback(() => {
+    openPopup?.popup.update();
+  }, [openPopup]);
 
   const centerOnMe = () => {
     if (!mapRef.current) return;
@@ -312,11 +484,8 @@ export default function GeoPoopPage() {
   };
 
   const fitAll = () => {
-    if (!mapRef.current || !groupRef.current) return;
-    const group = groupRef.current;
-
-    if (!group.getLayers().length) return;
-    mapRef.current.fitBounds(group.getBounds(), { padding: [50, 50] });
+    if (!mapRef.current || !boundsRef.current) return;
+    mapRef.current.fitBounds(boundsRef.current, { padding: [50, 50] });
   };
 
   return (
@@ -325,15 +494,118 @@ export default function GeoPoopPage() {
       <div className="map-wrapper">
         <div ref={mapContainer} id="geopoopMap" />
       </div>
+      <div className="layer-switcher">
+        <div aria-label="Vista mappa" className="layer-row" role="group">
+          {LAYER_MODES.map((mode) => (
+            <button
+              key={mode.id}
+              aria-pressed={layerMode === mode.id}
+              className={`layer-btn ${layerMode === mode.id ? "active" : ""}`}
+              type="button"
+              onClick={() => setLayerMode(mode.id)}
+            >
+              {mode.label}
+            </button>
+          ))}
+        </div>
+        {layerMode === "heat" ? (
+          <div aria-label="Peso heatmap" className="layer-row" role="group">
+            {HEAT_WEIGHTS.map((weight) => (
+              <button
+                key={weight.id}
+                aria-pressed={heatWeight === weight.id}
+                className={`layer-btn small ${heatWeight === weight.id ? "active" : ""}`}
+                type="button"
+                onClick={() => setHeatWeight(weight.id)}
+              >
+                {weight.label}
+              </button>
+            ))}
+          </div>
+        ) : null}
+      </div>
+      {timeRange ? (
+        <div className="timeline">
+          <button
+            aria-label={playing ? "Pausa" : "Riproduci timeline"}
+            className="timeline-play"
+            type="button"
+            onClick={togglePlay}
+          >
+            {playing ? "⏸" : "▶"}
+          </button>
+          <input
+            aria-label="Timeline"
+            className="timeline-range"
+            max={timeRange.max}
+            min={timeRange.min}
+            step={Math.max((timeRange.max - timeRange.min) / 200, 1)}
+            type="range"
+            value={cutoff ?? timeRange.max}
+            onChange={(e) => {
+              const value = Number(e.target.value);
+
+              setPlaying(false);
+              setCutoff(value >= timeRange.max ? null : value);
+            }}
+          />
+          <span className="timeline-label">
+            {cutoff === null
+              ? "Tutto"
+              : new Date(cutoff).toLocaleDateString("it-IT", {
+                  day: "2-digit",
+                  month: "short",
+                  year: "2-digit",
+                })}
+          </span>
+        </div>
+      ) : null}
+      {filtersOpen ? (
+        <GeoFilterDrawer
+          config={config}
+          filters={filters}
+          friends={friends}
+          visibleCount={totalLogs}
+          onChange={setFilters}
+          onClose={() => setFiltersOpen(false)}
+        />
+      ) : null}
       <div className="map-controls">
-        <button className="action-btn secondary" type="button" onClick={centerOnMe}>
+        <button
+          className="action-btn secondary"
+          type="button"
+          onClick={centerOnMe}
+        >
           📍 Io
         </button>
+        <button
+          aria-expanded={filtersOpen}
+          className="action-btn secondary"
+          type="button"
+          onClick={() => setFiltersOpen((open) => !open)}
+        >
+          🔎 {totalLogs}
+          {activeFilters ? (
+            <span className="filter-badge">{activeFilters}</span>
+          ) : null}
+        </button>
         <button className="action-btn" type="button" onClick={fitAll}>
           🌍 Tutti
         </button>
       </div>
 
+      {openPopup
+        ? createPortal(
+            <GeoPoopPopup
+              key={openPopup.key}
+              entries={openPopup.entries}
+              options={config}
+              onLayout={relayoutPopup}
+            />,
+            openPopup.container,
+          )
+        : null}
+
       {/* eslint-disable-next-line react/no-unknown-property */}
       <style jsx>{`
         :global(:root) {
@@ -408,6 +680,50 @@ export default function GeoPoopPage() {
           z-index: 900;
         }
 
+        .layer-switcher {
+          position: absolute;
+          top: 12px;
+          left: 50%;
+          transform: translateX(-50%);
+          z-index: 1001;
+          display: flex;
+          flex-direction: column;
+          align-items: center;
+          gap: 6px;
+        }
+
+        .layer-row {
+          display: flex;
+          gap: 4px;
+          padding: 4px;
+          background: #fff;
+          border: 3px solid var(--brown);
+          border-radius: 16px;
+          box-shadow: 0px 4px 0px rgba(0, 0, 0, 0.25);
+        }
+
+        .layer-btn {
+          border: none;
+          background: transparent;
+          color: var(--brown);
+          font-weight: 900;
+          font-size: 0.85rem;
+          padding: 6px 10px;
+          border-radius: 12px;
+          cursor: pointer;
+          white-space: nowrap;
+        }
+
+        .layer-btn.small {
+          font-size: 0.75rem;
+          padding: 4px 8px;
+        }
+
+        .layer-btn.active {
+          background: #ffeb3b;
+          box-shadow: inset 0 -2px 0 rgba(0, 0, 0, 0.15);
+        }
+
         .map-controls {
           position: absolute;
           bottom: 30px;
@@ -436,6 +752,61 @@ export default function GeoPoopPage() {
           transition: transform 0.1s, box-shadow 0.1s;
         }
 
+        .timeline {
+          position: absolute;
+          bottom: 110px;
+          left: 50%;
+          transform: translateX(-50%);
+          z-index: 1001;
+          width: 90%;
+          max-width: 420px;
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          background: #fff;
+          border: 3px solid var(--brown);
+          border-radius: 16px;
+          padding: 6px 10px;
+          box-shadow: 0px 4px 0px rgba(0, 0, 0, 0.25);
+        }
+
+        .timeline-play {
+          width: 34px;
+          height: 34px;
+          border-radius: 50%;
+          border: 2px solid var(--brown);
+          background: #ffeb3b;
+          color: var(--brown);
+          font-weight: 900;
+          cursor: pointer;
+        }
+
+        .timeline-range {
+          flex: 1;
+          accent-color: var(--accent-dark);
+        }
+
+        .timeline-label {
+          min-width: 64px;
+          text-align: right;
+          font-weight: 900;
+          font-size: 0.8rem;
+          color: var(--brown);
+        }
+
+        .filter-badge {
+          display: inline-grid;
+          place-items: center;
+          margin-left: 6px;
+          width: 20px;
+          height: 20px;
+          border-radius: 50%;
+          background: var(--accent-dark);
+          color: #fff;
+          font-size: 0.7rem;
+          font-family: "Nunito", sans-serif;
+        }
+
         .action-btn.secondary {
           background: #fff;
         }
@@ -554,131 +925,6 @@ export default function GeoPoopPage() {
           transform: translate(-50%, -50%) rotate(-45deg);
         }
 
-        :global(.popup-card) {
-          background: var(--panel);
-          border-radius: 20px;
-          border: 4px solid var(--brown);
-          box-shadow: inset 0 0 15px rgba(0, 0, 0, 0.08),
-            0 10px 0px rgba(0, 0, 0, 0.2);
-          overflow: hidden;
-        }
-
-        :global(.popup-header) {
-          background: var(--accent-dark);
-          padding: 14px;
-          border-bottom: 4px solid var(--brown);
-          font-family: "Titan One", cursive;
-          font-size: 1rem;
-          color: #fff;
-          text-align: center;
-          text-shadow: 2px 2px 0px rgba(0, 0, 0, 0.2);
-          display: flex;
-          align-items: center;
-          justify-content: center;
-          gap: 8px;
-        }
-
-        :global(.header-emoji) {
-          font-size: 1.2rem;
-        }
-
-        :global(.popup-body) {
-          padding: 16px;
-          text-align: center;
-          background: #fff8f0;
-          display: flex;
-          flex-direction: column;
-          gap: 6px;
-        }
-
-        :global(.popup-emoji) {
-          font-size: 3rem;
-          display: block;
-          margin-bottom: 4px;
-          filter: drop-shadow(0px 3px 0px rgba(0, 0, 0, 0.1));
-        }
-
-        :global(.popup-details) {
-          font-size: 0.95rem;
-          color: var(--brown);
-          font-weight: 800;
-          background: linear-gradient(135deg, #fff, #ffe7ce);
-          display: inline-flex;
-          align-items: center;
-          justify-content: center;
-          padding: 6px 14px;
-          border-radius: 999px;
-          border: 2px solid #d8b89a;
-          margin-bottom: 4px;
-          box-shadow: inset 0 0 8px rgba(255, 255, 255, 0.6);
-        }
-
-        :global(.popup-note) {
-          font-size: 0.85rem;
-          color: #5d4037;
-          font-style: italic;
-          background: #fff3e0;
-          border-radius: 10px;
-          padding: 6px 10px;
-          border: 2px solid #f4c794;
-        }
-
-        :global(.popup-slider) {
-          display: flex;
-          align-items: center;
-          justify-content: space-between;
-          gap: 6px;
-          margin-top: 4px;
-        }
-
-        :global(.popup-nav) {
-          width: 38px;
-          height: 38px;
-          border-radius: 50%;
-          border: 3px solid var(--brown);
-          background: radial-gradient(circle, #fff 0%, #ffe7ce 60%, #ffd0a6 100%);
-          font-size: 1.1rem;
-          font-weight: 900;
-          color: var(--brown);
-          cursor: pointer;
-          box-shadow: 0 5px 0 rgba(0, 0, 0, 0.25);
-          transition: transform 0.15s ease, box-shadow 0.15s ease;
-        }
-
-        :global(.popup-nav:hover) {
-          transform: translateY(-2px);
-          box-shadow: 0 7px 0 rgba(0, 0, 0, 0.3);
-        }
-
-        :global(.popup-nav:active) {
-          transform: translateY(2px);
-          box-shadow: 0 3px 0 rgba(0, 0, 0, 0.2);
-        }
-
-        :global(.popup-slide) {
-          flex: 1;
-          min-height: 32px;
-          border-radius: 12px;
-          background: transparent;
-          display: flex;
-          align-items: center;
-          justify-content: center;
-          font-weight: 700;
-          color: var(--brown);
-        }
-
-        :global(.popup-slider[data-count="1"]) :global(.popup-nav) {
-          display: none;
-        }
-
-        .popup-date {
-          font-size: 0.75rem;
-          color: #888;
-          font-weight: 700;
-          text-transform: uppercase;
-          letter-spacing: 1px;
-        }
-
         :global(.leaflet-control-attribution) {
           font-size: 9px;
           background: rgba(255, 255, 255, 0.7) !important;
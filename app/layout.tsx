@@ -1,11 +1,15 @@
 import "@/styles/globals.css";
 import { Metadata, Viewport } from "next";
+import Script from "next/script";
 
 import { Providers } from "./providers";
 
 import { AppHeader } from "@/components/AppHeader";
+import AuthGate from "@/components/AuthGate";
 import { HeaderProvider } from "@/components/HeaderContext";
+import { OfflineQueueProvider } from "@/components/OfflineQueueContext";
 import { PageShell } from "@/components/PageShell";
+import { SessionProvider } from "@/components/SessionContext";
 
 export const metadata: Metadata = {
   title: "PoopLog Arcade ULTRA",
@@ -42,12 +46,23 @@ export default function RootLayout({
         />
       </head>
       <body className="antialiased" style={{ overflowX: "hidden" }}>
+        {/* Espone Telegram.WebApp.initData, usato per autenticare le API */}
+        <Script
+          src="https://telegram.org/js/telegram-web-app.js"
+          strategy="beforeInteractive"
+        />
         <Providers themeProps={{ attribute: "class", defaultTheme: "light" }}>
           <HeaderProvider>
-            <div className="app-shell">
-              <AppHeader />
-              <PageShell>{children}</PageShell>
-            </div>
+            <SessionProvider>
+              <OfflineQueueProvider>
+                <div className="app-shell">
+                  <AppHeader />
+                  <PageShell>
+                    <AuthGate>{children}</AuthGate>
+                  </PageShell>
+                </div>
+              </OfflineQueueProvider>
+            </SessionProvider>
           </HeaderProvider>
         </Providers>
       </body>
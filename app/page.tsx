@@ -1,5 +1,8 @@
 "use client";
 
+import type { CreatePoopPayload } from "@/types/api";
+import type { Progress } from "@/types/progress";
+
 import {
   Suspense,
   useCallback,
@@ -8,69 +11,57 @@ import {
   useRef,
   useState,
 } from "react";
-import { useSearchParams } from "next/navigation";
-import { useHeaderState } from "@/components/HeaderContext";
+import Link from "next/link";
 
 import AchievementToast from "@/components/AchievementToast";
+import ActionToast from "@/components/ActionToast";
+import LevelUpModal from "@/components/LevelUpModal";
 import LoaderOverlay from "@/components/LoaderOverlay";
+import NoteField from "@/components/NoteField";
+import OptionGrid from "@/components/OptionGrid";
+import QuestList from "@/components/QuestList";
+import StreakPanel from "@/components/StreakPanel";
+import WhenField from "@/components/WhenField";
+import XpBreakdownList from "@/components/XpBreakdownList";
+import { useOfflineQueue } from "@/components/OfflineQueueContext";
+import { useSession } from "@/components/SessionContext";
 import XpToast from "@/components/XpToast";
-import { AchievementCard, XpToastPayload } from "@/types/gamification";
+import { buildAchievementCards, ConditionLog } from "@/lib/achievements";
+import { api, isAbortError, isConnectionError } from "@/lib/api";
+import { backdateError, toLocalInput } from "@/lib/backdate";
+import { levelsReached, levelTitle } from "@/lib/levels";
+import { createClientId } from "@/lib/offlineQueue";
+import {
+  farFromHomeBonus,
+  loadPlaces,
+  placeAt,
+  SavedPlace,
+} from "@/lib/places";
+import {
+  DEFAULT_PRIVACY,
+  formatPrecision,
+  loadPrivacySettings,
+  PrivacySettings,
+  sharedLocation,
+} from "@/lib/privacy";
+import {
+  loadQuestLogs,
+  newlyCompleted,
+  questClaims,
+  questStatuses,
+  questXpLines,
+  rewardXpLines,
+} from "@/lib/quests";
+import { countFlush, isToday, statsFromApi } from "@/lib/stats";
+import { activeRepair } from "@/lib/streak";
+import { getTelegram } from "@/lib/telegram";
+import { addXp, reconcileXp, withBonuses, xpBreakdown } from "@/lib/xp";
+import {
+  AchievementCard,
+  AchievementDef,
+  XpToastPayload,
+} from "@/types/gamification";
 
-type OptionCfg = { label: string; emoji?: string; xp?: number };
-type GeoRules = {
-  home_behavior?: string;
-  require_location_for_lat_lng?: boolean;
-};
-type GeolocationConfig = {
-  enabled?: boolean;
-  accuracy?: "high" | "balanced" | "low" | string;
-  store_coordinates?: boolean;
-  fields?: string[];
-  allowed_locations?: string[];
-  blocked_locations?: string[];
-  rules?: GeoRules;
-  xp_bonus?: { new_place?: number; far_from_home?: number };
-  distance_thresholds?: { far_from_home_km?: number };
-};
-type AchievementDef = {
-  id: string;
-  title?: string;
-  label?: string;
-  emoji?: string;
-  description?: string;
-  year?: number;
-   condition?: Record<string, unknown>;
-  hidden?: boolean;
-};
-type GameConfig = {
-  base_xp?: number;
-  consistency?: Record<string, OptionCfg>;
-  size?: Record<string, OptionCfg>;
-  location?: Record<string, OptionCfg>;
-  geolocation?: GeolocationConfig;
-  achievements?: AchievementDef[];
-};
-type Progress = {
-  xp_total?: number;
-  level?: number;
-  xp_in_level?: number;
-  xp_for_next?: number;
-};
-type Stats = {
-  today: number;
-  total: number;
-  streak: number;
-  combo: number;
-  consistencyCounts?: Record<string, number>;
-  sizeCounts?: Record<string, number>;
-  locationCounts?: Record<string, number>;
-};
-type UserInfo = {
-  id: number;
-  username?: string;
-  name?: string;
-  photo_url?: string;
-};
 type ConfettiPiece = {
   x: number;
   y: number;
@@ -82,6 +73,26 @@ type ConfettiPiece = {
   grav: number;
 };
 
+type FlushSelection = {
+  type: string;
+  size: string;
+  loc: string;
+};
+
+type FailedFlush = {
+  submission: FlushSelection;
+  payload: CreatePoopPayload;
+  submittedAt: string;
+};
+
+type UndoableFlush = {
+  poopId: number;
+  xpGain: number;
+  countedToday: boolean;
+  unlocked: string[];
+  questLog: ConditionLog;
+};
+
 type GeoReading = {
   lat: number;
   lng: number;
@@ -89,258 +100,89 @@ type GeoReading = {
   timestamp?: number;
 };
 
-const apiBaseEnv = (process.env.NEXT_PUBLIC_API_BASE || "").replace(/\/$/, "");
-
-function normalizeBase(base?: string | null) {
-  if (!base) return "";
-  const trimmed = base.trim();
-
-  return trimmed.endsWith("/") ? trimmed.slice(0, -1) : trimmed;
-}
-
-function coerceBaseForHttps(base: string) {
-  if (typeof window === "undefined") return base;
-  if (!base.startsWith("http://")) return base;
-  if (window.location.protocol === "https:") {
-    try {
-      const url = new URL(base);
-
-      if (url.hostname === window.location.hostname) {
-        url.protocol = "https:";
-
-        return normalizeBase(url.toString());
-      }
-    } catch (err) {
-      console.warn("Invalid api base", err);
-    }
-
-    return "";
-  }
-
-  return base;
-}
-
-const DEFAULT_ACH: AchievementDef[] = [
-  { id: "first", title: "Prima Cacca", emoji: "💩" },
-  { id: "streak3", title: "On Fire (3+ giorni)", emoji: "🔥" },
-  { id: "office", title: "Office Master", emoji: "👔" },
-  { id: "legend", title: "Poop Legend", emoji: "🏆" },
-];
-
 const colors = ["#f44336", "#2196f3", "#ffeb3b", "#4caf50", "#ff9800"];
 const BUILD_TAG = process.env.NEXT_PUBLIC_BUILD_TAG || "dev";
-const STORAGE_USERNAME_KEY = "ts_username";
-const STORAGE_UID_KEY = "ts_uid";
-
-type UserInfoResponse = {
-  user?: UserInfo;
-  progress?: Progress;
-  stats?: {
-    poops_today?: number;
-    poops_total?: number;
-    total_poops?: number;
-    total?: number;
-    streak_days?: number;
-    best_combo?: number;
-    consistency_counts?: Record<string, number>;
-    size_counts?: Record<string, number>;
-    location_counts?: Record<string, number>;
-  };
-  achievements?: { id: string }[];
-  game_config?: GameConfig;
-};
+// Aggiorna subito contatori e XP senza aspettare il backend (cold start).
+const OPTIMISTIC_FLUSH = process.env.NEXT_PUBLIC_OPTIMISTIC_FLUSH !== "0";
+const UNDO_WINDOW_MS = 8000;
 
-type UserStatsResponse = {
-  progress?: Progress;
-  stats?: {
-    total_poops?: number;
-    poops_total?: number;
-    poops_today?: number;
-    streak_days?: number;
-    best_combo?: number;
-    consistency_counts?: Record<string, number>;
-    size_counts?: Record<string, number>;
-    location_counts?: Record<string, number>;
-  };
-  achievements?: { id: string }[];
-};
+function progressFill(progress: Progress | null | undefined, fallback = 0) {
+  if (!progress?.xp_for_next) return fallback;
 
-function getTelegram() {
-  if (typeof window === "undefined") return null;
-
-  return (window as any).Telegram?.WebApp || null;
+  return ((progress.xp_in_level || 0) / (progress.xp_for_next || 1)) * 100;
 }
 
-function buildAchievements(
-  config: GameConfig,
-  unlocked: Set<string>,
-  stats?: Stats | null,
-): AchievementCard[] {
-  const defs =
-    config.achievements && config.achievements.length
-      ? config.achievements
-      : DEFAULT_ACH;
-
-  const resolveMetric = (key: string): number | undefined => {
-    if (!stats) return undefined;
-    if (key === "total_poops") return stats.total ?? 0;
-    if (key === "daily_streak") return stats.streak ?? 0;
-    if (key === "poops_in_one_day") return stats.combo ?? 0;
-    if (key.startsWith("type_")) {
-      const slug = key.replace("type_", "");
-      return stats.consistencyCounts?.[slug] ?? 0;
-    }
-    if (key.startsWith("size_")) {
-      const slug = key.replace("size_", "");
-      return stats.sizeCounts?.[slug] ?? 0;
-    }
-    if (key.startsWith("loc_")) {
-      const slug = key.replace("loc_", "");
-      return stats.locationCounts?.[slug] ?? 0;
-    }
-
-    return undefined;
+function unlockedCard(a: AchievementDef): AchievementCard {
+  return {
+    id: a.id,
+    title: a.title || a.label || a.id,
+    emoji: a.emoji || "🏆",
+    description: a.description,
+    year: a.year,
+    unlocked: true,
   };
-
-  const describeCondition = (key: string, target: number) => {
-    if (key === "total_poops") return "Log totali";
-    if (key === "daily_streak") return "Streak di giorni";
-    if (key === "poops_in_one_day") return "Log nello stesso giorno";
-    if (key.startsWith("type_")) {
-      const slug = key.replace("type_", "");
-      const label = config.consistency?.[slug]?.label || slug;
-      return label;
-    }
-    if (key.startsWith("size_")) {
-      const slug = key.replace("size_", "");
-      const label = config.size?.[slug]?.label || slug;
-      return label;
-    }
-    if (key.startsWith("loc_")) {
-      const slug = key.replace("loc_", "");
-      const label = config.location?.[slug]?.label || slug;
-      return label;
-    }
-    if (key.startsWith("weekend")) return "Log nel weekend";
-    if (key.startsWith("unique_locations")) return "Location uniche";
-
-    return `Obiettivo (${target})`;
-  };
-
-  const enriched = defs
-    .filter((ach) => !ach.hidden || unlocked.has(ach.id))
-    .map((ach) => {
-      let progress: AchievementCard["progress"] | undefined;
-      if (ach.condition && stats) {
-        for (const [key, rawTarget] of Object.entries(ach.condition)) {
-          if (typeof rawTarget !== "number" || rawTarget <= 0) continue;
-          const current = resolveMetric(key);
-          if (current === undefined) continue;
-          const pct = Math.max(0, Math.min(100, (current / rawTarget) * 100));
-          progress = {
-            current,
-            target: rawTarget,
-            pct,
-            label: describeCondition(key, rawTarget),
-          };
-          break;
-        }
-      }
-
-      const unlockedNow = unlocked.has(ach.id);
-      if (progress && unlockedNow) {
-        progress = { ...progress, current: progress.target, pct: 100 };
-      }
-
-      return {
-        id: ach.id,
-        title: ach.title || ach.label || ach.id,
-        emoji: ach.emoji || "🏆",
-        description: ach.description,
-        unlocked: unlockedNow,
-        year: ach.year,
-        hidden: ach.hidden,
-        condition: ach.condition,
-        progress,
-      };
-    });
-
-  return enriched;
-}
-
-function resolveApiBase() {
-  if (typeof window !== "undefined") {
-    const params = new URLSearchParams(window.location.search);
-    const qp =
-      params.get("api") || params.get("api_base") || params.get("apiBase");
-
-    if (qp) return normalizeBase(qp);
-
-    const globalBase = (window as any).__API_BASE__ || (window as any).API_BASE;
-
-    if (globalBase) return normalizeBase(String(globalBase));
-  }
-
-  // Prefer env override (es. https://my-api.example.com)
-  if (apiBaseEnv) return coerceBaseForHttps(normalizeBase(apiBaseEnv));
-  if (typeof window === "undefined") return "";
-  const { origin, port } = window.location;
-
-  // In dev (Next port 3000/3001) puntiamo al backend 8000.
-  if (port === "3000" || port === "3001") {
-    return origin.replace(`:${port}`, ":8000");
-  }
-
-  // In produzione usa path relativo per evitare mixed-content e CORS.
-  return "";
-}
-
-function buildApiUrl(path: string, base?: string) {
-  const apiBase = coerceBaseForHttps(normalizeBase(base ?? resolveApiBase()));
-
-  return `${apiBase}${path}`;
 }
 
 function Home() {
-  const searchParams = useSearchParams();
-  const debugMode = searchParams.get("debug") === "1";
-
-  const [config, setConfig] = useState<GameConfig | null>(null);
-  const [playerName, setPlayerName] = useState("Loading...");
-  const [progress, setProgress] = useState<Progress | null>(null);
-  const [stats, setStats] = useState<Stats>({
-    today: 0,
-    total: 0,
-    streak: 0,
-    combo: 0,
-    consistencyCounts: {},
-    sizeCounts: {},
-    locationCounts: {},
-  });
-  const [user, setUser] = useState<UserInfo | null>(null);
-  const [loading, setLoading] = useState(true);
-
-  const [selection, setSelection] = useState({
+  const {
+    config,
+    user,
+    progress,
+    stats,
+    unlockedIds,
+    streak,
+    loading,
+    error: sessionError,
+    setProgress,
+    setStats,
+    setUnlockedIds,
+    setStreak,
+    applyServerState,
+    refresh,
+  } = useSession();
+  const { pending, synced, dropped, enqueue, clearSynced, clearDropped } =
+    useOfflineQueue();
+
+  const [selection, setSelection] = useState<FlushSelection>({
     type: "",
     size: "",
     loc: "",
   });
   const [isReady, setIsReady] = useState(false);
-  const [achievements, setAchievements] = useState<AchievementCard[]>([]);
-  const [unlockedIds, setUnlockedIds] = useState<Set<string>>(new Set());
+  const [note, setNote] = useState("");
+  const [tags, setTags] = useState<string[]>([]);
+  // Vuoto = "adesso"; altrimenti data/ora locale del log retroattivo.
+  const [when, setWhen] = useState("");
   const [saving, setSaving] = useState(false);
-  const [photoUrl, setPhotoUrl] = useState<string | null>(null);
+  // Flush ottimistico in volo: blocca nuovi invii ma non lo schermo.
+  const [syncing, setSyncing] = useState(false);
   const [recentAch, setRecentAch] = useState<AchievementCard[]>([]);
   const [xpToast, setXpToast] = useState<XpToastPayload | null>(null);
-  const { updateHeader } = useHeaderState();
+  const [levelUp, setLevelUp] = useState<{ from: number; to: number } | null>(
+    null,
+  );
 
-  const [error, setError] = useState<string | null>(null);
-  const [logs, setLogs] = useState<string[]>([]);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [saveInfo, setSaveInfo] = useState<string | null>(null);
+  const [failedFlush, setFailedFlush] = useState<FailedFlush | null>(null);
+  const [lastFlush, setLastFlush] = useState<UndoableFlush | null>(null);
   const [stuck, setStuck] = useState(false);
+  const [repairing, setRepairing] = useState(false);
+  const error = saveError || sessionError;
 
   const [geoData, setGeoData] = useState<GeoReading | null>(null);
   const [geoError, setGeoError] = useState<string | null>(null);
   const [geoLoading, setGeoLoading] = useState(false);
+  const [privacy, setPrivacy] = useState<PrivacySettings>(DEFAULT_PRIVACY);
+  const [isPrivate, setIsPrivate] = useState(false);
+  const [places, setPlaces] = useState<SavedPlace[]>([]);
+  // Posizione letta all'apertura e posto salvato che la contiene.
+  const [autoPlace, setAutoPlace] = useState<SavedPlace | null>(null);
+  const locatedRef = useRef(false);
+  // Log della settimana corrente su cui misuriamo le quest.
+  const [questLogs, setQuestLogs] = useState<ConditionLog[]>([]);
+  const [questReload, setQuestReload] = useState(0);
+  const userId = user?.id;
 
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const confettiRef = useRef<ConfettiPiece[]>([]);
@@ -354,31 +196,58 @@ function Home() {
     return Math.max(0, Math.min(100, perc));
   }, [progress]);
 
-  useEffect(() => {
-    updateHeader({ progress });
-  }, [progress, updateHeader]);
-
-  useEffect(() => {
-    updateHeader({ playerName });
-  }, [playerName, updateHeader]);
-
-  useEffect(() => {
-    updateHeader({ photoUrl });
-  }, [photoUrl, updateHeader]);
-
   const resetSelections = () => {
     setSelection({ type: "", size: "", loc: "" });
     setIsReady(false);
+    setNote("");
+    setTags([]);
+    setWhen("");
     setGeoData(null);
     setGeoError(null);
     setGeoLoading(false);
+    setIsPrivate(privacy.private_by_default);
   };
 
   useEffect(() => {
-    if (!config) return;
-    setAchievements(buildAchievements(config, unlockedIds, stats));
+    const loaded = loadPrivacySettings();
+
+    setPrivacy(loaded);
+    setIsPrivate(loaded.private_by_default);
+    setPlaces(loadPlaces());
+  }, []);
+
+  // Il badge bloccato più vicino, misurato con lo stesso valutatore della
+  // pagina achievement.
+  const nextAchievement = useMemo(() => {
+    if (!config) return null;
+    const candidates = buildAchievementCards(config, unlockedIds, stats).filter(
+      (ach) => !ach.unlocked && !ach.expired && !ach.hidden && ach.progress,
+    );
+
+    candidates.sort((a, b) => (b.progress?.pct ?? 0) - (a.progress?.pct ?? 0));
+
+    return candidates[0] || null;
   }, [config, unlockedIds, stats]);
 
+  useEffect(() => {
+    if (!userId) return undefined;
+    const controller = new AbortController();
+
+    loadQuestLogs(userId, new Date(), { signal: controller.signal })
+      .then(setQuestLogs)
+      .catch((err) => {
+        if (isAbortError(err)) return;
+        console.warn("Quest logs load failed", err);
+      });
+
+    return () => controller.abort();
+  }, [userId, questReload]);
+
+  const quests = useMemo(
+    () => questStatuses(config, questLogs, stats),
+    [config, questLogs, stats],
+  );
+
   useEffect(() => {
     setIsReady(Boolean(selection.type && selection.size && selection.loc));
   }, [selection]);
@@ -390,6 +259,66 @@ function Home() {
     return () => window.clearTimeout(timer);
   }, [xpToast]);
 
+  useEffect(() => {
+    if (!lastFlush) return undefined;
+    const timer = window.setTimeout(() => setLastFlush(null), UNDO_WINDOW_MS);
+
+    return () => window.clearTimeout(timer);
+  }, [lastFlush]);
+
+  // Log in coda rifiutati per sempre dal server: li elenchiamo nel toast.
+  const droppedMessage = useMemo(() => {
+    if (!dropped.length) return null;
+    const details = dropped.map(({ payload }) => {
+      const when = new Date(payload.created_at).toLocaleString("it-IT", {
+        day: "numeric",
+        month: "short",
+        hour: "2-digit",
+        minute: "2-digit",
+      });
+      const type =
+        config?.consistency?.[payload.consistency]?.label ||
+        payload.consistency;
+      const place =
+        config?.location?.[payload.location]?.label || payload.location;
+
+      return `${type} · ${place} (${when})`;
+    });
+
+    return dropped.length === 1
+      ? `Flush in coda rifiutato dal server e scartato: ${details[0]}.`
+      : `${dropped.length} flush in coda rifiutati dal server e scartati: ${details.join("; ")}.`;
+  }, [config, dropped]);
+
+  // Log inviati in background dalla coda offline: mostriamo XP e badge
+  // come se il flush fosse appena avvenuto.
+  useEffect(() => {
+    if (!synced.length) return;
+    const responses = synced.map((s) => s.response);
+    const xpGain = responses.reduce((sum, r) => sum + (r?.xp_gain || 0), 0);
+    const lastProgress = responses[responses.length - 1]?.progress;
+    const newlyUnlocked: AchievementDef[] = [];
+
+    responses.forEach((r) =>
+      newlyUnlocked.push(...(r?.unlocked_achievements || [])),
+    );
+
+    setXpToast({
+      delta: xpGain,
+      level: lastProgress?.level ?? progress?.level,
+      fillPercent: progressFill(lastProgress, xpPerc),
+    });
+    if (newlyUnlocked.length) {
+      const nextUnlocked = new Set(unlockedIds);
+
+      newlyUnlocked.forEach((a) => nextUnlocked.add(a.id));
+      setUnlockedIds(nextUnlocked);
+      setRecentAch(newlyUnlocked.map(unlockedCard));
+    }
+    setSaveInfo(null);
+    clearSynced();
+  }, [synced]);
+
   useEffect(() => {
     const tg = getTelegram();
     if (!tg) return;
@@ -442,210 +371,6 @@ function Home() {
     };
   }, [resizeCanvas]);
 
-  useEffect(() => {
-    const loadAll = async () => {
-      setError(null);
-      setStuck(false);
-      setLoading(true);
-      const apiBase = resolveApiBase();
-      const addLog = (msg: string) => {
-        if (debugMode) {
-          setLogs((prev) => [
-            ...prev.slice(-10),
-            `[${new Date().toISOString()}] ${msg}`,
-          ]);
-        }
-        console.log(msg);
-      };
-
-      try {
-        addLog(`Build tag: ${BUILD_TAG}`);
-        addLog(`API base: ${apiBase || "(same origin)"}`);
-        const tg = getTelegram();
-        let username =
-          searchParams.get("username") ||
-          (typeof window !== "undefined"
-            ? localStorage.getItem(STORAGE_USERNAME_KEY)
-            : null) ||
-          undefined;
-        let uid =
-          searchParams.get("uid") ||
-          (typeof window !== "undefined"
-            ? localStorage.getItem(STORAGE_UID_KEY)
-            : null) ||
-          undefined;
-        const nameParam = searchParams.get("name") || undefined;
-
-        const tgUser = tg?.initDataUnsafe?.user;
-
-        if (tgUser) {
-          if (!uid) uid = String(tgUser.id);
-          if (!username) username = tgUser.username || undefined;
-          if (tgUser.photo_url) setPhotoUrl(tgUser.photo_url);
-        }
-
-        const fallbackName = username ? `@${username}` : nameParam || "Player";
-
-        setPlayerName(fallbackName);
-        if (typeof window !== "undefined") {
-          if (username) localStorage.setItem(STORAGE_USERNAME_KEY, username);
-          if (uid) localStorage.setItem(STORAGE_UID_KEY, uid);
-        }
-
-        // Carica configurazione di gioco (endpoint dedicato) con log del body in caso di parse error
-        try {
-          const cfgRes = await fetch(buildApiUrl("/gaming-config", apiBase), {
-            cache: "no-store",
-            mode: "cors",
-          });
-
-          addLog(`GET /gaming-config -> ${cfgRes.status}`);
-          const cfgText = await cfgRes.text();
-
-          if (!cfgRes.ok)
-            throw new Error(`HTTP ${cfgRes.status} body: ${cfgText}`);
-          try {
-            const cfg = JSON.parse(cfgText) as GameConfig;
-
-            setConfig(cfg);
-          } catch (parseErr) {
-            throw new Error(
-              `Config JSON parse error: ${String(parseErr)} body: ${cfgText.slice(0, 200)}`,
-            );
-          }
-        } catch (err) {
-          console.warn("Config load failed", err);
-          setError("Config non disponibile");
-          addLog(`Config error: ${String(err)}`);
-        }
-
-        if (!uid && !username) {
-          setError("Nessun username/uid fornito");
-          addLog("Stop: nessun uid/username");
-
-          return;
-        }
-
-        const qs = uid
-          ? `uid=${encodeURIComponent(uid)}`
-          : `username=${encodeURIComponent(username as string)}`;
-        const userUrl = buildApiUrl(`/webapp/userinfo?${qs}`, apiBase);
-
-        try {
-          const res = await fetch(userUrl, { cache: "no-store" });
-
-          addLog(`GET ${userUrl} -> ${res.status}`);
-          const userText = await res.text();
-
-          if (!res.ok) throw new Error(`HTTP ${res.status} body: ${userText}`);
-          let data: UserInfoResponse;
-
-          try {
-            data = JSON.parse(userText) as UserInfoResponse;
-          } catch (parseErr) {
-            throw new Error(
-              `Userinfo JSON parse error: ${String(parseErr)} body: ${userText.slice(0, 200)}`,
-            );
-          }
-
-          if (data.game_config) {
-            setConfig((prev) => prev || data.game_config || null);
-          }
-
-          if (data.user) {
-            setUser(data.user);
-            setPlayerName(
-              data.user.username
-                ? `@${data.user.username}`
-                : data.user.name || fallbackName || "Player",
-            );
-            if (data.user.photo_url) {
-              setPhotoUrl((prev) => prev || data.user?.photo_url || null);
-            }
-          }
-
-          if (data.progress) setProgress(data.progress);
-
-          if (data.user?.id) {
-            const statsRes = await fetch(
-              buildApiUrl(`/user/${data.user.id}/stats`, apiBase),
-              { cache: "no-store" },
-            );
-
-            addLog(`GET /user/${data.user.id}/stats -> ${statsRes.status}`);
-            if (statsRes.ok) {
-              const statsText = await statsRes.text();
-              let statsData: UserStatsResponse;
-
-              try {
-                statsData = JSON.parse(statsText) as UserStatsResponse;
-              } catch (parseErr) {
-                throw new Error(
-                  `Stats JSON parse error: ${String(parseErr)} body: ${statsText.slice(0, 200)}`,
-                );
-              }
-              if (statsData.progress) setProgress(statsData.progress);
-              const st = statsData.stats || {};
-
-              setStats({
-                today: st.poops_today ?? data.stats?.poops_today ?? 0,
-                total:
-                  st.total_poops ??
-                  st.poops_total ??
-                  data.stats?.total_poops ??
-                  0,
-                streak: st.streak_days ?? 0,
-                combo: st.best_combo ?? 0,
-                consistencyCounts:
-                  st.consistency_counts ||
-                  data.stats?.consistency_counts ||
-                  stats.consistencyCounts,
-                sizeCounts:
-                  st.size_counts || data.stats?.size_counts || stats.sizeCounts,
-                locationCounts:
-                  st.location_counts ||
-                  data.stats?.location_counts ||
-                  stats.locationCounts,
-              });
-              const unlocked = new Set<string>(
-                (statsData.achievements || []).map((a) => a.id),
-              );
-
-              setUnlockedIds(unlocked);
-            } else if (data.stats) {
-              setStats({
-                today: data.stats.poops_today ?? 0,
-                total:
-                  data.stats.total_poops ??
-                  data.stats.poops_total ??
-                  data.stats.total ??
-                  0,
-                streak: data.stats.streak_days ?? 0,
-                combo: data.stats.best_combo ?? 0,
-                consistencyCounts:
-                  data.stats.consistency_counts || stats.consistencyCounts,
-                sizeCounts: data.stats.size_counts || stats.sizeCounts,
-                locationCounts:
-                  data.stats.location_counts || stats.locationCounts,
-              });
-            }
-          }
-        } catch (err) {
-          console.warn("Errore userinfo", err);
-          setError("Impossibile caricare i dati utente");
-          setPlayerName("Offline");
-          addLog(`Userinfo error: ${String(err)}`);
-        }
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    loadAll();
-
-    return () => {};
-  }, [searchParams]);
-
   useEffect(() => {
     if (config) {
       setStuck(false);
@@ -654,7 +379,6 @@ function Home() {
     }
     const timer = window.setTimeout(() => {
       setStuck(true);
-      setLoading(false);
     }, 5000);
 
     return () => window.clearTimeout(timer);
@@ -788,89 +512,180 @@ function Home() {
     );
   };
 
-  const startFlush = async () => {
-    if (!isReady || !user || !config || saving) return;
-    setSaving(true);
+  // Una sola lettura all'apertura: se siamo dentro un posto salvato
+  // preselezioniamo la sua location (senza toccare una scelta già fatta).
+  useEffect(() => {
+    if (locatedRef.current || !places.length) return;
+    if (!geolocationCfg?.enabled || !geoSupported) return;
+    locatedRef.current = true;
+    navigator.geolocation.getCurrentPosition(
+      (pos) => {
+        const reading: GeoReading = {
+          lat: Number(pos.coords.latitude.toFixed(6)),
+          lng: Number(pos.coords.longitude.toFixed(6)),
+          accuracy: pos.coords.accuracy
+            ? Math.round(pos.coords.accuracy)
+            : undefined,
+          timestamp: pos.timestamp,
+        };
+        const match = placeAt(reading, places);
+
+        if (match && config?.location?.[match.location]) {
+          setAutoPlace(match);
+          setSelection((prev) =>
+            prev.loc ? prev : { ...prev, loc: match.location },
+          );
+        }
+      },
+      (err) => console.warn("Geofence lookup failed", err),
+      { enableHighAccuracy: false, maximumAge: 60000, timeout: 8000 },
+    );
+  }, [places, geolocationCfg, geoSupported, config]);
+
+  const shared = useMemo(
+    () => (geoData ? sharedLocation(geoData, privacy, config) : null),
+    [geoData, privacy, config],
+  );
+
+  // Coordinate che verrebbero inviate col prossimo flush (mai per i
+  // log retroattivi né vicino a un luogo sensibile).
+  const uploadGeo =
+    shouldCaptureGeo && shared && !shared.excluded && !when ? shared : null;
+  // Il bonus "lontano da casa" si può avere solo se le coordinate partono.
+  const farBonus = uploadGeo
+    ? farFromHomeBonus(uploadGeo, places, config)
+    : null;
+
+  const flushBreakdown = (
+    entry: Pick<
+      CreatePoopPayload,
+      "consistency" | "size" | "location" | "created_at" | "lat" | "lng"
+    >,
+  ) => {
+    const point =
+      entry.lat !== undefined && entry.lng !== undefined
+        ? { lat: entry.lat, lng: entry.lng }
+        : null;
+
+    return xpBreakdown(entry, config, {
+      streak: stats.streak,
+      today: isToday(entry.created_at) ? stats.today : undefined,
+      farFromHomeXp: point
+        ? farFromHomeBonus(point, places, config)?.xp
+        : undefined,
+      geoShared: Boolean(point),
+    });
+  };
+
+  const whenDate = when ? new Date(when) : null;
+  const xpPreview =
+    selection.type || selection.size || selection.loc
+      ? flushBreakdown({
+          consistency: selection.type,
+          size: selection.size,
+          location: selection.loc,
+          created_at:
+            whenDate && !Number.isNaN(whenDate.getTime())
+              ? whenDate.toISOString()
+              : undefined,
+          lat: uploadGeo?.lat,
+          lng: uploadGeo?.lng,
+        })
+      : null;
+
+  const submitFlush = async (
+    submission: FlushSelection,
+    payload: CreatePoopPayload,
+    submittedAt: string,
+  ) => {
+    if (!config || saving || syncing) return;
+    const setBusy = OPTIMISTIC_FLUSH ? setSyncing : setSaving;
+
+    setBusy(true);
+    setSaveError(null);
+    setSaveInfo(null);
+    setFailedFlush(null);
+    setLastFlush(null);
 
     const tg = getTelegram();
-    const submission = { ...selection };
-    const payload = {
-      user_id: user.id,
-      consistency: submission.type,
-      size: submission.size,
-      location: submission.loc,
-      note: undefined,
-      ...(shouldCaptureGeo && geoData
-        ? { lat: geoData.lat, lng: geoData.lng, accuracy: geoData.accuracy }
-        : {}),
+    const entry = {
+      consistency: payload.consistency,
+      size: payload.size,
+      location: payload.location,
+      created_at: payload.created_at,
     };
+    const snapshot = { stats, progress };
+    const questLog = {
+      ...entry,
+      created_at: payload.created_at || submittedAt,
+    };
+    // Le quest completate da questo log vanno al server, che le verifica e
+    // assegna il bonus: fino ad allora sono solo righe "?" nella stima.
+    const completedQuests = newlyCompleted(
+      quests,
+      questStatuses(config, [...questLogs, questLog], countFlush(stats, entry)),
+    );
+    const sent: CreatePoopPayload = completedQuests.length
+      ? { ...payload, quests: questClaims(completedQuests) }
+      : payload;
+    const estimate = withBonuses(
+      flushBreakdown(payload),
+      questXpLines(completedQuests),
+    );
+    const keepQuests = () => setQuestLogs((prev) => [...prev, questLog]);
 
-    try {
-      const res = await fetch(buildApiUrl("/poop"), {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload),
-      });
-
-      if (!res.ok) throw new Error(`HTTP ${res.status}`);
-      const data = await res.json();
+    if (OPTIMISTIC_FLUSH) {
+      const nextProgress = addXp(progress, estimate.total);
 
+      setStats((prev) => countFlush(prev, entry));
+      setProgress(nextProgress);
       fireConfetti();
-      const xpFillPercent = data.progress?.xp_for_next
-        ? ((data.progress?.xp_in_level || 0) /
-            (data.progress?.xp_for_next || 1)) *
-          100
-        : xpPerc;
+      setXpToast({
+        delta: estimate.total,
+        breakdown: estimate,
+        level: nextProgress?.level,
+        fillPercent: progressFill(nextProgress, xpPerc),
+      });
+      resetSelections();
+    }
 
+    try {
+      const data = await api.createPoop(sent);
+      const granted = withBonuses(
+        flushBreakdown(payload),
+        rewardXpLines(data.quest_rewards, config),
+      );
+
+      keepQuests();
+      if (!OPTIMISTIC_FLUSH) fireConfetti();
       setXpToast({
         delta: data.xp_gain || 0,
+        breakdown: reconcileXp(granted, data.xp_gain || 0),
         level: data.progress?.level ?? progress?.level,
-        fillPercent: xpFillPercent,
+        fillPercent: progressFill(data.progress, xpPerc),
       });
 
       if (data.progress) setProgress(data.progress);
-      if (data.stats) {
-        setStats((prev) => ({
-          today: prev.today + 1,
-          total:
-            data.stats.total_poops ??
-            data.stats.poops_total ??
-            data.stats.total ??
-            prev.total,
-          streak: data.stats.streak_days ?? prev.streak,
-          combo: data.stats.best_combo ?? prev.combo,
-          consistencyCounts:
-            data.stats.consistency_counts || prev.consistencyCounts,
-          sizeCounts: data.stats.size_counts || prev.sizeCounts,
-          locationCounts: data.stats.location_counts || prev.locationCounts,
-        }));
-      } else {
-        setStats((prev) => {
-          const nextConsistency = { ...(prev.consistencyCounts || {}) };
-          const nextSize = { ...(prev.sizeCounts || {}) };
-          const nextLocation = { ...(prev.locationCounts || {}) };
-
-          if (submission.type) {
-            nextConsistency[submission.type] =
-              (nextConsistency[submission.type] || 0) + 1;
-          }
-          if (submission.size) {
-            nextSize[submission.size] = (nextSize[submission.size] || 0) + 1;
-          }
-          if (submission.loc) {
-            nextLocation[submission.loc] =
-              (nextLocation[submission.loc] || 0) + 1;
-          }
+      const levelBefore = snapshot.progress?.level;
+      const levelAfter = data.progress?.level;
 
-          return {
-            ...prev,
-            today: prev.today + 1,
-            total: prev.total + 1,
-            consistencyCounts: nextConsistency,
-            sizeCounts: nextSize,
-            locationCounts: nextLocation,
-          };
-        });
+      if (levelBefore && levelAfter && levelAfter > levelBefore) {
+        setLevelUp({ from: levelBefore, to: levelAfter });
+      }
+      // Il backend non restituisce "oggi": lo teniamo dal conteggio locale.
+      setStats((prev) => {
+        const counted = OPTIMISTIC_FLUSH ? prev : countFlush(prev, entry);
+
+        return data.stats
+          ? { ...statsFromApi(data.stats, counted), today: counted.today }
+          : counted;
+      });
+
+      if (data.streak) {
+        if (streak && data.streak.freezes > streak.freezes) {
+          setSaveInfo("🧊 Hai guadagnato un gettone congela-streak!");
+        }
+        setStreak(data.streak);
       }
 
       const newUnlocked = new Set(unlockedIds);
@@ -878,49 +693,187 @@ function Home() {
 
       newlyUnlocked.forEach((a) => newUnlocked.add(a.id));
       setUnlockedIds(newUnlocked);
-      setAchievements(buildAchievements(config, newUnlocked));
       if (newlyUnlocked.length) {
-        setRecentAch(
-          newlyUnlocked.map((a) => ({
-            id: a.id,
-            title: a.title || a.label || a.id,
-            emoji: a.emoji || "🏆",
-            description: a.description,
-            year: a.year,
-            unlocked: true,
-          })),
-        );
+        setRecentAch(newlyUnlocked.map(unlockedCard));
       }
 
-      resetSelections();
+      if (data.poop?.id) {
+        setLastFlush({
+          poopId: data.poop.id,
+          xpGain: data.xp_gain || 0,
+          countedToday: isToday(payload.created_at),
+          unlocked: newlyUnlocked.map((a) => a.id),
+          questLog,
+        });
+      }
+
+      if (!OPTIMISTIC_FLUSH) resetSelections();
+      // Lo streak lo calcola il backend: un log retroattivo può cambiarlo.
+      if (payload.created_at) await refresh();
       if (tg?.HapticFeedback) tg.HapticFeedback.notificationOccurred("success");
     } catch (err) {
+      const offline = typeof navigator !== "undefined" && !navigator.onLine;
+
+      // Solo senza risposta (rete/timeout) il flush resta valido e parte dalla
+      // coda offline; un errore HTTP, anche 5xx, passa dal rollback.
+      if (offline || isConnectionError(err)) {
+        try {
+          await enqueue({
+            ...sent,
+            client_id: sent.client_id || createClientId(),
+            created_at: submittedAt,
+          });
+          keepQuests();
+          if (!OPTIMISTIC_FLUSH) resetSelections();
+          setSaveInfo(
+            "Nessuna connessione: flush salvato, lo inviamo appena torni online.",
+          );
+          if (tg?.HapticFeedback) {
+            tg.HapticFeedback.notificationOccurred("warning");
+          }
+
+          return;
+        } catch (queueErr) {
+          console.warn("Offline queue write failed", queueErr);
+        }
+      }
       console.error("Errore nel salvataggio", err);
-      setError("Errore durante il salvataggio");
+      if (OPTIMISTIC_FLUSH) {
+        setStats(snapshot.stats);
+        setProgress(snapshot.progress);
+        setXpToast(null);
+        setFailedFlush({ submission, payload, submittedAt });
+        if (tg?.HapticFeedback) tg.HapticFeedback.notificationOccurred("error");
+      } else {
+        setSaveError("Errore durante il salvataggio");
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const startFlush = async () => {
+    if (!isReady || !user || !config || saving || syncing) return;
+
+    const backdated = when ? new Date(when) : null;
+    const whenError = backdated ? backdateError(backdated, config) : null;
+
+    if (whenError) {
+      setSaveError(whenError);
+
+      return;
+    }
+
+    const submission = { ...selection };
+    const payload: CreatePoopPayload = {
+      client_id: createClientId(),
+      consistency: submission.type,
+      size: submission.size,
+      location: submission.loc,
+      note: note.trim() || undefined,
+      tags: tags.length ? tags : undefined,
+      created_at: backdated ? backdated.toISOString() : undefined,
+      backdated: backdated ? true : undefined,
+      visibility: isPrivate ? "private" : "public",
+      anonymous: privacy.anonymous || undefined,
+      ...(uploadGeo
+        ? {
+            lat: uploadGeo.lat,
+            lng: uploadGeo.lng,
+            accuracy: uploadGeo.accuracy,
+            precision_m: uploadGeo.precision_m,
+          }
+        : {}),
+    };
+
+    await submitFlush(
+      submission,
+      payload,
+      payload.created_at || new Date().toISOString(),
+    );
+  };
+
+  const undoLastFlush = async () => {
+    if (!lastFlush || saving || syncing) return;
+    const target = lastFlush;
+    const tg = getTelegram();
+
+    setLastFlush(null);
+    setSaving(true);
+    setSaveError(null);
+    try {
+      const data = await api.deletePoop(target.poopId);
+
+      if (data?.stats || data?.progress) applyServerState(data);
+      else await refresh();
+      setQuestLogs((prev) => prev.filter((log) => log !== target.questLog));
+      setQuestReload((n) => n + 1);
+      if (target.countedToday && data?.stats?.poops_today === undefined) {
+        setStats((prev) => ({ ...prev, today: Math.max(0, prev.today - 1) }));
+      }
+
+      // Badge revocati: quelli appena sbloccati che il backend non riporta più.
+      const stillUnlocked = data?.achievements
+        ? new Set(data.achievements.map((a) => a.id))
+        : null;
+      const revoked = stillUnlocked
+        ? target.unlocked.filter((id) => !stillUnlocked.has(id))
+        : [];
+
+      if (revoked.length) {
+        setRecentAch((prev) => prev.filter((a) => !revoked.includes(a.id)));
+      }
+      setXpToast({
+        delta: -target.xpGain,
+        level: data?.progress?.level ?? progress?.level,
+        fillPercent: progressFill(data?.progress, xpPerc),
+      });
+      if (tg?.HapticFeedback) tg.HapticFeedback.notificationOccurred("warning");
+    } catch (err) {
+      console.error("Errore nell'annullamento", err);
+      setSaveError("Impossibile annullare il flush");
     } finally {
       setSaving(false);
     }
   };
 
-  const renderGrid = (
-    entries: Record<string, OptionCfg> | undefined,
-    group: "type" | "size" | "loc",
-  ) => {
-    if (!entries)
-      return (
-        <p style={{ color: "#8d6e63", margin: "8px 0" }}>Caricamento...</p>
-      );
+  const repair = activeRepair(streak);
 
-    return Object.entries(entries).map(([key, cfg]) => (
-      <div
-        key={`${group}-${key}`}
-        className={`card ${selection[group] === key ? "selected" : ""}`}
-        onClick={() => handleSelect(group, key)}
-      >
-        <span className="emoji">{cfg.emoji || "❔"}</span>
-        <span>{cfg.label || key}</span>
-      </div>
-    ));
+  const repairStreak = async () => {
+    if (!user || !repair || repairing) return;
+    setRepairing(true);
+    setSaveError(null);
+    try {
+      applyServerState(await api.repairStreak(user.id));
+      setSaveInfo(`🔥 Streak di ${repair.streak_days} giorni riparato!`);
+    } catch (err) {
+      console.warn("Streak repair failed", err);
+      setSaveError("Impossibile riparare lo streak");
+    } finally {
+      setRepairing(false);
+    }
+  };
+
+  const retryFailedFlush = () => {
+    if (!failedFlush) return;
+    submitFlush(
+      failedFlush.submission,
+      failedFlush.payload,
+      failedFlush.submittedAt,
+    );
+  };
+
+  const editFailedFlush = () => {
+    if (!failedFlush) return;
+    setSelection(failedFlush.submission);
+    setNote(failedFlush.payload.note || "");
+    setTags(failedFlush.payload.tags || []);
+    setWhen(
+      failedFlush.payload.created_at
+        ? toLocalInput(failedFlush.payload.created_at)
+        : "",
+    );
+    setFailedFlush(null);
   };
 
   const selectedLocationLabel =
@@ -928,6 +881,8 @@ function Home() {
       ? config.location[selection.loc]?.label || selection.loc
       : selection.loc;
 
+  const notesEnabled = config?.notes?.enabled !== false;
+
   const closeAchToast = () => setRecentAch([]);
 
   return (
@@ -940,6 +895,9 @@ function Home() {
       {error ? (
         <p style={{ color: "#b71c1c", fontWeight: 800 }}>{error}</p>
       ) : null}
+      {saveInfo ? (
+        <p style={{ color: "#1565c0", fontWeight: 800 }}>{saveInfo}</p>
+      ) : null}
       {stuck ? (
         <p style={{ color: "#b71c1c", fontWeight: 800 }}>
           Timeout nel caricamento. Controlla rete/HTTPS e prova a ricaricare con
@@ -952,9 +910,29 @@ function Home() {
         </p>
       ) : (
         <>
+          {repair ? (
+            <div className="repair-banner" role="status">
+              <span>
+                💔 Il tuo streak di {repair.streak_days} giorni si è interrotto.
+              </span>
+              <button disabled={repairing} type="button" onClick={repairStreak}>
+                {repairing ? "Riparo…" : `Ripara per ${repair.cost_xp} XP`}
+              </button>
+            </div>
+          ) : null}
           <div className="pocket-stats">
             <div className="score-pill score-today">
-              <span className="pill-label">Oggi</span>
+              <span className="pill-label">
+                Oggi
+                {pending.length ? (
+                  <span
+                    className="sync-badge"
+                    title="Flush in attesa di sincronizzazione"
+                  >
+                    ⏳ {pending.length}
+                  </span>
+                ) : null}
+              </span>
               <span className="pill-value" id="countToday">
                 {stats.today}
               </span>
@@ -966,21 +944,81 @@ function Home() {
               </span>
             </div>
           </div>
+          <StreakPanel stats={stats} streak={streak} />
+          {nextAchievement?.progress ? (
+            <Link className="next-ach" href="/achivments">
+              <span className="next-ach-emoji">{nextAchievement.emoji}</span>
+              <span className="next-ach-body">
+                <span className="next-ach-title">
+                  Prossimo badge: {nextAchievement.title}
+                </span>
+                <span className="next-ach-track">
+                  <span
+                    className="next-ach-fill"
+                    style={{
+                      width: `${Math.min(100, nextAchievement.progress.pct)}%`,
+                    }}
+                  />
+                </span>
+                <span className="next-ach-label">
+                  {nextAchievement.progress.label} ·{" "}
+                  {Math.round(nextAchievement.progress.pct)}%
+                </span>
+              </span>
+            </Link>
+          ) : null}
+
+          {quests.length ? (
+            <>
+              <h2>
+                Quest 🎯
+                <Link className="quest-link" href="/quests">
+                  Storico
+                </Link>
+              </h2>
+              <QuestList quests={quests} />
+            </>
+          ) : null}
 
           <h2>Consistenza</h2>
-          <div className="grid" id="typeGrid">
-            {renderGrid(config.consistency, "type")}
-          </div>
+          <OptionGrid
+            id="typeGrid"
+            options={config.consistency}
+            selected={selection.type}
+            onSelect={(key) => handleSelect("type", key)}
+          />
 
           <h2>Quantità</h2>
-          <div className="grid" id="sizeGrid">
-            {renderGrid(config.size, "size")}
-          </div>
+          <OptionGrid
+            id="sizeGrid"
+            options={config.size}
+            selected={selection.size}
+            onSelect={(key) => handleSelect("size", key)}
+          />
 
           <h2>Location</h2>
-          <div className="grid" id="locGrid">
-            {renderGrid(config.location, "loc")}
-          </div>
+          <OptionGrid
+            id="locGrid"
+            options={config.location}
+            selected={selection.loc}
+            onSelect={(key) => handleSelect("loc", key)}
+          />
+          {(autoPlace && selection.loc === autoPlace.location) || farBonus ? (
+            <div className="place-hint">
+              {autoPlace && selection.loc === autoPlace.location ? (
+                <span>📍 Sei a «{autoPlace.label}»</span>
+              ) : null}
+              {farBonus ? (
+                <span>
+                  ✈️ A {Math.round(farBonus.distance_km)} km da casa: +
+                  {farBonus.xp} XP?
+                </span>
+              ) : null}
+              <Link className="geo-settings" href="/places">
+                I miei posti
+              </Link>
+            </div>
+          ) : null}
 
           {shouldCaptureGeo ? (
             <div aria-live="polite" className="geo-panel">
@@ -998,14 +1036,23 @@ function Home() {
                 </button>
               </div>
               <div className="geo-line">
-                {geoData ? (
+                {shared?.excluded ? (
+                  <span className="geo-hint-inline">
+                    🛡️ Vicino a «{shared.excluded.label}»: coordinate non
+                    condivise
+                  </span>
+                ) : shared ? (
                   <>
                     <span>
-                      {geoData.lat.toFixed(5)}, {geoData.lng.toFixed(5)}
+                      {shared.lat.toFixed(5)}, {shared.lng.toFixed(5)}
+                    </span>
+                    <span className="geo-accuracy">
+                      {shared.precision_m > 0
+                        ? `precisione ${formatPrecision(shared.precision_m)}`
+                        : shared.accuracy
+                          ? `±${shared.accuracy}m`
+                          : "posizione esatta"}
                     </span>
-                    {geoData.accuracy ? (
-                      <span className="geo-accuracy">±{geoData.accuracy}m</span>
-                    ) : null}
                   </>
                 ) : (
                   <span className="geo-hint-inline">
@@ -1013,10 +1060,49 @@ function Home() {
                   </span>
                 )}
               </div>
+              <div className="geo-privacy">
+                <button
+                  aria-pressed={isPrivate}
+                  className={`geo-chip ${isPrivate ? "on" : ""}`}
+                  type="button"
+                  onClick={() => setIsPrivate((prev) => !prev)}
+                >
+                  {isPrivate ? "🔒 Solo io" : "🌍 Pubblico"}
+                </button>
+                {privacy.anonymous ? (
+                  <span className="geo-chip">🥷 Anonimo</span>
+                ) : null}
+                <Link className="geo-settings" href="/privacy">
+                  Privacy ⚙
+                </Link>
+              </div>
               {geoError ? <div className="geo-error">{geoError}</div> : null}
             </div>
           ) : null}
 
+          {notesEnabled ? (
+            <>
+              <h2>Note</h2>
+              <NoteField
+                config={config.notes}
+                note={note}
+                tags={tags}
+                onNoteChange={setNote}
+                onTagsChange={setTags}
+              />
+            </>
+          ) : null}
+
+          <h2>Quando</h2>
+          <WhenField allowNow config={config} value={when} onChange={setWhen} />
+
+          {xpPreview ? (
+            <div aria-live="polite" className="xp-preview">
+              <div className="xp-preview-title">Valore del flush</div>
+              <XpBreakdownList breakdown={xpPreview} />
+            </div>
+          ) : null}
+
           <div className="dock">
             <div
               className={`action ${isReady && config ? "ready" : ""}`}
@@ -1030,6 +1116,31 @@ function Home() {
       )}
 
       <AchievementToast items={recentAch} onClose={closeAchToast} />
+      <LevelUpModal
+        level={levelUp?.to ?? null}
+        reached={levelUp ? levelsReached(config, levelUp.from, levelUp.to) : []}
+        title={levelTitle(config, levelUp?.to)}
+        onClose={() => setLevelUp(null)}
+      />
+      <ActionToast
+        actions={[
+          { label: "Riprova", onClick: retryFailedFlush },
+          { label: "Modifica", onClick: editFailedFlush },
+        ]}
+        message={
+          failedFlush
+            ? "Flush rifiutato dal server, contatori ripristinati."
+            : null
+        }
+        onClose={() => setFailedFlush(null)}
+      />
+      <ActionToast emoji="🗑️" message={droppedMessage} onClose={clearDropped} />
+      <ActionToast
+        actions={[{ label: "Annulla", onClick: undoLastFlush }]}
+        emoji="🚽"
+        message={lastFlush ? "Flush registrato!" : null}
+        onClose={() => setLastFlush(null)}
+      />
 
       <LoaderOverlay
         emoji="🧻"
@@ -1195,7 +1306,7 @@ function Home() {
           display: grid;
           grid-template-columns: 1fr 1fr;
           gap: 8px;
-          margin-bottom: 18px;
+          margin-bottom: 8px;
         }
 
         .score-pill {
@@ -1230,6 +1341,16 @@ function Home() {
           font-size: 0.8rem;
         }
 
+        .sync-badge {
+          padding: 1px 6px;
+          border-radius: 999px;
+          background: #fff3e0;
+          border: 2px solid #ef6c00;
+          color: #e65100;
+          font-size: 0.7rem;
+          text-transform: none;
+        }
+
         .pill-value {
           font-family: "Titan One";
           font-size: 1.6rem;
@@ -1256,64 +1377,6 @@ function Home() {
           border-radius: 50%;
         }
 
-        .grid {
-          display: grid;
-          grid-template-columns: repeat(3, 1fr);
-          gap: 10px;
-        }
-
-        .card {
-          background: var(--panel);
-          text-align: center;
-          border: var(--border-width) solid var(--brown);
-          border-radius: 16px;
-          padding: 15px 5px;
-          cursor: pointer;
-          box-shadow: 0px 4px 0px var(--brown);
-          transition: 0.1s;
-        }
-
-        .card:active {
-          transform: translateY(4px);
-          box-shadow: none;
-        }
-
-        .card .emoji {
-          font-size: 2rem;
-          display: block;
-          margin-bottom: 5px;
-        }
-
-        .card span:last-child {
-          font-weight: 800;
-          font-size: 0.8rem;
-        }
-
-        .card.selected {
-          background: #fff3e0;
-          border-color: var(--accent-dark);
-          transform: translateY(4px);
-          box-shadow: none;
-          position: relative;
-        }
-
-        .card.selected::after {
-          content: "✔";
-          position: absolute;
-          top: -8px;
-          right: -8px;
-          background: var(--green);
-          color: white;
-          border: 2px solid var(--brown);
-          border-radius: 50%;
-          width: 20px;
-          height: 20px;
-          font-size: 0.7rem;
-          display: flex;
-          align-items: center;
-          justify-content: center;
-        }
-
         .geo-panel {
           margin-top: 12px;
           background: var(--panel);
@@ -1397,6 +1460,157 @@ function Home() {
           font-size: 0.85rem;
         }
 
+        .xp-preview {
+          margin-top: 16px;
+          background: var(--panel);
+          border: var(--border-width) solid var(--brown);
+          border-radius: 14px;
+          padding: 10px 12px;
+          box-shadow: 0px 4px 0px rgba(78, 52, 46, 0.15);
+          color: #3e2723;
+        }
+
+        .xp-preview-title {
+          font-weight: 900;
+          text-transform: uppercase;
+          letter-spacing: 0.5px;
+          font-size: 0.85rem;
+          margin-bottom: 6px;
+        }
+
+        .place-hint {
+          margin-top: 8px;
+          display: flex;
+          align-items: center;
+          gap: 10px;
+          flex-wrap: wrap;
+          font-weight: 800;
+          font-size: 0.85rem;
+          color: #5d4037;
+        }
+
+        .geo-privacy {
+          margin-top: 8px;
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          flex-wrap: wrap;
+        }
+
+        .geo-chip {
+          border: 2px solid var(--brown);
+          border-radius: 999px;
+          padding: 3px 10px;
+          background: #fff;
+          color: var(--brown);
+          font-weight: 800;
+          font-size: 0.8rem;
+        }
+
+        .geo-chip.on {
+          background: #fff3e0;
+          border-color: var(--accent-dark);
+        }
+
+        .geo-settings {
+          margin-left: auto;
+          color: #5d4037;
+          font-weight: 800;
+          font-size: 0.8rem;
+          text-decoration: underline;
+        }
+
+        .repair-banner {
+          display: flex;
+          align-items: center;
+          gap: 10px;
+          margin-bottom: 12px;
+          padding: 8px 12px;
+          background: #ffebee;
+          border: 2px solid var(--brown);
+          border-radius: 12px;
+          font-weight: 800;
+          font-size: 0.85rem;
+          color: #b71c1c;
+        }
+
+        .repair-banner button {
+          margin-left: auto;
+          padding: 6px 10px;
+          border: 2px solid var(--brown);
+          border-radius: 10px;
+          background: #fff;
+          color: var(--brown);
+          font-weight: 900;
+          white-space: nowrap;
+          cursor: pointer;
+        }
+
+        .repair-banner button:disabled {
+          opacity: 0.6;
+          cursor: not-allowed;
+        }
+
+        .next-ach {
+          display: flex;
+          align-items: center;
+          gap: 10px;
+          margin-bottom: 18px;
+          padding: 8px 12px;
+          background: #fff;
+          border: 3px solid var(--brown);
+          border-radius: 14px;
+          box-shadow: 0px 3px 0px rgba(78, 52, 46, 0.15);
+          color: #3e2723;
+          text-decoration: none;
+        }
+
+        .next-ach-emoji {
+          font-size: 1.6rem;
+        }
+
+        .next-ach-body {
+          flex: 1;
+          min-width: 0;
+          display: flex;
+          flex-direction: column;
+          gap: 3px;
+        }
+
+        .next-ach-title {
+          font-weight: 900;
+          font-size: 0.9rem;
+        }
+
+        .next-ach-track {
+          height: 8px;
+          background: #ffe0b2;
+          border: 2px solid var(--brown);
+          border-radius: 99px;
+          overflow: hidden;
+        }
+
+        .next-ach-fill {
+          display: block;
+          height: 100%;
+          background: #ffb74d;
+        }
+
+        .next-ach-label {
+          font-size: 0.75rem;
+          font-weight: 800;
+          color: #6d4c41;
+        }
+
+        .quest-link {
+          margin-left: auto;
+          font-family: "Nunito", sans-serif;
+          font-size: 0.8rem;
+          font-weight: 800;
+          color: #5d4037;
+          text-decoration: underline;
+        }
+
         .geo-error {
           margin-top: 6px;
           color: #b71c1c;
@@ -1510,12 +1724,6 @@ function Home() {
           pointer-events: none;
           z-index: 999;
         }
-
-        @media (max-width: 480px) {
-          .grid {
-            grid-template-columns: repeat(2, 1fr);
-          }
-        }
       `}</style>
     </>
   );
@@ -0,0 +1,347 @@
+"use client";
+
+import { Suspense, useEffect, useState } from "react";
+
+import OptionGrid from "@/components/OptionGrid";
+import { useSession } from "@/components/SessionContext";
+import { createClientId } from "@/lib/offlineQueue";
+import {
+  DEFAULT_PLACE_RADIUS_M,
+  loadPlaces,
+  MIN_PLACE_RADIUS_M,
+  radiusFromInput,
+  SavedPlace,
+  savePlaces,
+} from "@/lib/places";
+
+function PageContent() {
+  const { config } = useSession();
+  const [places, setPlaces] = useState<SavedPlace[]>([]);
+  const [location, setLocation] = useState("");
+  const [label, setLabel] = useState("");
+  // I raggi restano testo finché si scrive: il minimo si applica al blur.
+  const [radius, setRadius] = useState(String(DEFAULT_PLACE_RADIUS_M));
+  const [radiusDrafts, setRadiusDrafts] = useState<Record<string, string>>({});
+  const [locating, setLocating] = useState(false);
+  const [geoError, setGeoError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPlaces(loadPlaces());
+  }, []);
+
+  const persist = (next: SavedPlace[]) => {
+    setPlaces(next);
+    savePlaces(next);
+  };
+
+  const locationLabel = (key: string) => {
+    const cfg = config?.location?.[key];
+
+    return cfg ? `${cfg.emoji || "📍"} ${cfg.label || key}` : key;
+  };
+
+  const saveHere = () => {
+    if (!location) return;
+    if (typeof navigator === "undefined" || !navigator.geolocation) {
+      setGeoError("Geolocalizzazione non supportata dal dispositivo.");
+
+      return;
+    }
+    setLocating(true);
+    setGeoError(null);
+    navigator.geolocation.getCurrentPosition(
+      (pos) => {
+        persist([
+          ...places,
+          {
+            id: createClientId(),
+            label:
+              label.trim() || config?.location?.[location]?.label || location,
+            location,
+            lat: Number(pos.coords.latitude.toFixed(6)),
+            lng: Number(pos.coords.longitude.toFixed(6)),
+            radius_m: radiusFromInput(
+              radius,
+              MIN_PLACE_RADIUS_M,
+              DEFAULT_PLACE_RADIUS_M,
+            ),
+          },
+        ]);
+        setLabel("");
+        setLocating(false);
+      },
+      (err) => {
+        setGeoError(err.message || "Impossibile ottenere la posizione.");
+        setLocating(false);
+      },
+      { enableHighAccuracy: true, maximumAge: 0, timeout: 8000 },
+    );
+  };
+
+  const commitRadius = (place: SavedPlace) => {
+    const draft = radiusDrafts[place.id];
+
+    if (draft === undefined) return;
+    const value = radiusFromInput(draft, MIN_PLACE_RADIUS_M, place.radius_m);
+
+    setRadiusDrafts(({ [place.id]: _done, ...rest }) => rest);
+    persist(
+      places.map((p) => (p.id === place.id ? { ...p, radius_m: value } : p)),
+    );
+  };
+
+  const removePlace = (id: string) => {
+    persist(places.filter((p) => p.id !== id));
+  };
+
+  return (
+    <main className="places-page">
+      <h1>I miei posti 📌</h1>
+      <p className="hint">
+        Quando apri il WC dentro il raggio di un posto salvato, la location
+        viene selezionata da sola.
+      </p>
+
+      <div className="panel">
+        {places.length ? (
+          <ul className="places">
+            {places.map((place) => (
+              <li key={place.id} className="place">
+                <div className="place-name">
+                  {place.label}
+                  <small>{locationLabel(place.location)}</small>
+                </div>
+                <label className="radius">
+                  <input
+                    aria-label={`Raggio di ${place.label} in metri`}
+                    min={MIN_PLACE_RADIUS_M}
+                    step={25}
+                    type="number"
+                    value={radiusDrafts[place.id] ?? place.radius_m}
+                    onBlur={() => commitRadius(place)}
+                    onChange={(e) =>
+                      setRadiusDrafts((prev) => ({
+                        ...prev,
+                        [place.id]: e.target.value,
+                      }))
+                    }
+                  />
+                  m
+                </label>
+                <button
+                  aria-label={`Rimuovi ${place.label}`}
+                  className="remove"
+                  type="button"
+                  onClick={() => removePlace(place.id)}
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="empty">Nessun posto salvato.</div>
+        )}
+      </div>
+
+      <h2>Nuovo posto</h2>
+      <OptionGrid
+        options={config?.location}
+        selected={location}
+        onSelect={setLocation}
+      />
+      <div className="add-row">
+        <input
+          aria-label="Nome del posto"
+          className="text"
+          placeholder="Es. Ufficio Milano"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+        />
+        <label className="radius">
+          <input
+            aria-label="Raggio in metri"
+            min={MIN_PLACE_RADIUS_M}
+            step={25}
+            type="number"
+            value={radius}
+            onBlur={() =>
+              setRadius(
+                String(
+                  radiusFromInput(
+                    radius,
+                    MIN_PLACE_RADIUS_M,
+                    DEFAULT_PLACE_RADIUS_M,
+                  ),
+                ),
+              )
+            }
+            onChange={(e) => setRadius(e.target.value)}
+          />
+          m
+        </label>
+        <button
+          className="add"
+          disabled={locating || !location}
+          type="button"
+          onClick={saveHere}
+        >
+          {locating ? "Rilevo…" : "📍 Salva qui"}
+        </button>
+      </div>
+      {geoError ? <div className="error">{geoError}</div> : null}
+
+      {/* eslint-disable-next-line react/no-unknown-property */}
+      <style jsx>{`
+        .places-page {
+          max-width: 520px;
+          margin: 0 auto;
+          padding: 15px 15px 100px;
+          font-family: "Nunito", sans-serif;
+          color: #3e2723;
+        }
+
+        h1 {
+          font-family: "Titan One", cursive;
+          color: var(--brown);
+          margin: 0 0 10px;
+        }
+
+        h2 {
+          font-family: "Titan One", cursive;
+          color: var(--brown);
+          font-size: 1.1rem;
+          margin: 22px 0 6px;
+        }
+
+        .hint {
+          margin: 0 0 8px;
+          font-size: 0.85rem;
+          font-weight: 700;
+          color: #795548;
+        }
+
+        .panel {
+          background: var(--panel);
+          border: var(--border-width) solid var(--brown);
+          border-radius: 14px;
+          padding: 10px 12px;
+          box-shadow: 0px 4px 0px rgba(78, 52, 46, 0.15);
+        }
+
+        .places {
+          list-style: none;
+          margin: 0;
+          padding: 0;
+          display: flex;
+          flex-direction: column;
+          gap: 8px;
+        }
+
+        .place {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+        }
+
+        .place-name {
+          flex: 1;
+          font-weight: 800;
+          word-break: break-word;
+        }
+
+        .place-name small {
+          display: block;
+          font-weight: 700;
+          color: #795548;
+        }
+
+        .radius {
+          display: inline-flex;
+          align-items: center;
+          gap: 4px;
+          font-weight: 800;
+        }
+
+        .radius input {
+          width: 72px;
+        }
+
+        .radius input,
+        .text {
+          border: 2px solid var(--brown);
+          border-radius: 10px;
+          padding: 6px 8px;
+          font-family: "Nunito", sans-serif;
+          font-weight: 800;
+          color: var(--brown);
+          background: #fff;
+        }
+
+        .remove {
+          border: 2px solid var(--brown);
+          border-radius: 10px;
+          background: #fff;
+          color: #c62828;
+          font-weight: 900;
+          padding: 4px 10px;
+          cursor: pointer;
+        }
+
+        .empty {
+          font-weight: 700;
+          color: #795548;
+        }
+
+        .add-row {
+          margin-top: 12px;
+          display: flex;
+          align-items: center;
+          gap: 8px;
+        }
+
+        .text {
+          flex: 1;
+          min-width: 0;
+        }
+
+        .add {
+          background: var(--blue);
+          color: white;
+          font-weight: 800;
+          border: 3px solid var(--brown);
+          border-radius: 12px;
+          padding: 6px 12px;
+          cursor: pointer;
+          box-shadow: 0px 4px 0px var(--brown);
+          white-space: nowrap;
+        }
+
+        .add:disabled {
+          opacity: 0.6;
+          cursor: not-allowed;
+          box-shadow: none;
+        }
+
+        .error {
+          margin-top: 6px;
+          color: #b71c1c;
+          font-weight: 800;
+          font-size: 0.9rem;
+        }
+      `}</style>
+    </main>
+  );
+}
+
+export default function Page() {
+  return (
+    <Suspense
+      fallback={
+        <div style={{ padding: 20, textAlign: "center" }}>Caricamento…</div>
+      }
+    >
+      <PageContent />
+    </Suspense>
+  );
+}
@@ -1,40 +1,17 @@
 "use client";
 
+import type { BucketResponse, BucketUser } from "@/types/api";
+
 import { Suspense, useEffect, useMemo, useState } from "react";
 import { useSearchParams } from "next/navigation";
 import { ChevronLeft, ChevronRight } from "lucide-react";
 
 import LoaderOverlay from "@/components/LoaderOverlay";
-
-type PoopEntry = {
-  id: number;
-  user_id: number;
-  consistency: string;
-  size: string;
-  location: string;
-  xp_awarded: number;
-  created_at: string;
-};
-type BucketUser = {
-  user_id: number;
-  username?: string | null;
-  name?: string | null;
-  photo_url?: string | null;
-  total_poops: number;
-  total_xp: number;
-  mass_tons?: number;
-  poops: PoopEntry[];
-};
-type BucketResponse = {
-  year: number;
-  total_mass_tons?: number;
-  users: BucketUser[];
-};
+import { api } from "@/lib/api";
 
 const MIN_YEAR = 2025;
 const CURRENT_YEAR = new Date().getFullYear();
 const TARGET_TONS = 1;
-const apiBaseEnv = (process.env.NEXT_PUBLIC_API_BASE || "").replace(/\/$/, "");
 const KG_PER_TON = 1000;
 const MILESTONES = [
   { pct: 10, label: "gatto", icon: "🐱" }, // ~4-5kg
@@ -49,65 +26,6 @@ const MILESTONES = [
   { pct: 100, label: "balena", icon: "🐋" }, // 1T target simbolico
 ];
 
-function normalizeBase(base?: string | null) {
-  if (!base) return "";
-  const trimmed = base.trim();
-
-  return trimmed.endsWith("/") ? trimmed.slice(0, -1) : trimmed;
-}
-
-function coerceBaseForHttps(base: string) {
-  if (typeof window === "undefined") return base;
-  if (!base.startsWith("http://")) return base;
-  if (window.location.protocol === "https:") {
-    try {
-      const url = new URL(base);
-
-      if (url.hostname === window.location.hostname) {
-        url.protocol = "https:";
-
-        return normalizeBase(url.toString());
-      }
-    } catch (err) {
-      console.warn("Invalid api base", err);
-    }
-
-    return "";
-  }
-
-  return base;
-}
-
-function resolveApiBase() {
-  if (typeof window !== "undefined") {
-    const params = new URLSearchParams(window.location.search);
-    const qp =
-      params.get("api") || params.get("api_base") || params.get("apiBase");
-
-    if (qp) return normalizeBase(qp);
-
-    const globalBase = (window as any).__API_BASE__ || (window as any).API_BASE;
-
-    if (globalBase) return normalizeBase(String(globalBase));
-  }
-
-  if (apiBaseEnv) return coerceBaseForHttps(normalizeBase(apiBaseEnv));
-  if (typeof window === "undefined") return "";
-  const { origin, port } = window.location;
-
-  if (port === "3000" || port === "3001") {
-    return origin.replace(`:${port}`, ":8000");
-  }
-
-  return "";
-}
-
-function buildApiUrl(path: string, base?: string | null) {
-  const apiBase = coerceBaseForHttps(normalizeBase(base ?? resolveApiBase()));
-
-  return `${apiBase}${path}`;
-}
-
 function formatUserName(u: BucketUser) {
   if (u.username) return `@${u.username}`;
   if (u.name) return u.name;
@@ -165,23 +83,11 @@ function PageContent() {
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    const apiBase =
-      searchParams.get("api") ||
-      searchParams.get("api_base") ||
-      searchParams.get("apiBase");
-
     const loadBucket = async () => {
       setLoading(true);
       setError(null);
       try {
-        const res = await fetch(
-          buildApiUrl(`/poopbucket?year=${year}`, apiBase),
-          { cache: "no-store" },
-        );
-        const text = await res.text();
-
-        if (!res.ok) throw new Error(`HTTP ${res.status} ${text}`);
-        const data = JSON.parse(text) as BucketResponse;
+        const data = await api.getPoopBucket(year);
 
         setBucket(data);
       } catch (err) {
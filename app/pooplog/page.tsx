@@ -1,111 +1,31 @@
 "use client";
 
+import type { PoopEntry, UpdatePoopPayload } from "@/types/api";
+import type { GameConfig } from "@/types/gamification";
+
 import { Suspense, useCallback, useEffect, useMemo, useState } from "react";
+import {
+  ChevronLeft,
+  ChevronRight,
+  Pencil,
+  Plus,
+  Search,
+  Trash2,
+} from "lucide-react";
 import { useSearchParams } from "next/navigation";
-import { ChevronLeft, ChevronRight, Trash2 } from "lucide-react";
 
 import LoaderOverlay from "@/components/LoaderOverlay";
+import PoopEditSheet from "@/components/PoopEditSheet";
+import { useSession } from "@/components/SessionContext";
+import XpBreakdownList from "@/components/XpBreakdownList";
+import { api } from "@/lib/api";
+import { earliestBackdate } from "@/lib/backdate";
+import { createClientId } from "@/lib/offlineQueue";
+import { canFreezeDay, isFrozenDay, xpToNextFreeze } from "@/lib/streak";
+import { loggedXpBreakdown } from "@/lib/xp";
 
-type OptionCfg = { label: string; emoji?: string; xp?: number };
-type GameConfig = {
-  consistency?: Record<string, OptionCfg>;
-  size?: Record<string, OptionCfg>;
-  location?: Record<string, OptionCfg>;
-};
-type UserInfo = {
-  id: number;
-  username?: string;
-  name?: string;
-  photo_url?: string;
-};
-type UserInfoResponse = {
-  user?: UserInfo;
-  game_config?: GameConfig;
-};
-type PoopEntry = {
-  id: number;
-  user_id: number;
-  consistency: string;
-  size: string;
-  location: string;
-  note?: string | null;
-  xp_awarded?: number;
-  lat?: number | null;
-  lng?: number | null;
-  accuracy?: number | null;
-  created_at: string;
-};
-type MonthlyPoopsResponse = { poops: PoopEntry[] };
-type DeletePoopResponse = {
-  stats: unknown;
-  progress: unknown;
-  achievements: unknown;
-};
-
-const apiBaseEnv = (process.env.NEXT_PUBLIC_API_BASE || "").replace(/\/$/, "");
-const STORAGE_USERNAME_KEY = "ts_username";
-const STORAGE_UID_KEY = "ts_uid";
 const DAYS_SHORT = ["Lun", "Mar", "Mer", "Gio", "Ven", "Sab", "Dom"];
 
-function normalizeBase(base?: string | null) {
-  if (!base) return "";
-  const trimmed = base.trim();
-
-  return trimmed.endsWith("/") ? trimmed.slice(0, -1) : trimmed;
-}
-
-function coerceBaseForHttps(base: string) {
-  if (typeof window === "undefined") return base;
-  if (!base.startsWith("http://")) return base;
-  if (window.location.protocol === "https:") {
-    try {
-      const url = new URL(base);
-
-      if (url.hostname === window.location.hostname) {
-        url.protocol = "https:";
-
-        return normalizeBase(url.toString());
-      }
-    } catch (err) {
-      console.warn("Invalid api base", err);
-    }
-
-    return "";
-  }
-
-  return base;
-}
-
-function resolveApiBase() {
-  if (typeof window !== "undefined") {
-    const params = new URLSearchParams(window.location.search);
-    const qp =
-      params.get("api") || params.get("api_base") || params.get("apiBase");
-
-    if (qp) return normalizeBase(qp);
-
-    const globalBase = (window as any).__API_BASE__ || (window as any).API_BASE;
-
-    if (globalBase) return normalizeBase(String(globalBase));
-  }
-
-  if (apiBaseEnv) return coerceBaseForHttps(normalizeBase(apiBaseEnv));
-  if (typeof window === "undefined") return "";
-  const { origin, port } = window.location;
-
-  if (port === "3000" || port === "3001") {
-    return origin.replace(`:${port}`, ":8000");
-  }
-
-  return "";
-}
-
-function buildApiUrl(path: string, base?: string | null) {
-  const apiBase = coerceBaseForHttps(normalizeBase(base ?? resolveApiBase()));
-
-  return `${apiBase}${path}`;
-}
-
 function isSameDay(a: Date, b: Date) {
   return (
     a.getFullYear() === b.getFullYear() &&
@@ -118,129 +38,110 @@ function dateKey(d: Date) {
   return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
 }
 
+/** Local midnight of a `YYYY-MM-DD` key, or null when malformed. */
+function dayFromKey(key: string | null) {
+  if (!key) return null;
+  const [y, m, d] = key.split("-").map(Number);
+  const dt = new Date(y, m - 1, d);
+
+  return dateKey(dt) === key ? dt : null;
+}
+
 function parseDate(value: string) {
   const dt = new Date(value);
 
   return Number.isNaN(dt.getTime()) ? new Date() : dt;
 }
 
-function computeXp(log: PoopEntry, config?: GameConfig | null) {
-  if (typeof log.xp_awarded === "number") return log.xp_awarded;
+function tagLabels(log: PoopEntry, config?: GameConfig | null) {
+  const quickTags = config?.notes?.quick_tags || [];
 
-  let xp = 0;
-  const consXp = config?.consistency?.[log.consistency]?.xp || 0;
-  const sizeXp = config?.size?.[log.size]?.xp || 0;
-  const locXp = config?.location?.[log.location]?.xp || 0;
+  return (log.tags || []).map((id) => {
+    const tag = quickTags.find((t) => t.id === id);
 
-  xp += consXp + sizeXp + locXp;
+    return tag ? `${tag.emoji ? `${tag.emoji} ` : ""}${tag.label}` : id;
+  });
+}
 
-  return xp;
+function matchesQuery(
+  log: PoopEntry,
+  query: string,
+  config?: GameConfig | null,
+) {
+  const haystack = [log.note || "", ...(log.tags || [])]
+    .concat(tagLabels(log, config))
+    .join(" ")
+    .toLowerCase();
+
+  return haystack.includes(query);
 }
 
 function PageContent() {
-  const searchParams = useSearchParams();
-  const [config, setConfig] = useState<GameConfig | null>(null);
+  const {
+    user,
+    config,
+    progress,
+    stats,
+    streak,
+    loading: sessionLoading,
+    error: sessionError,
+    applyServerState,
+    refresh,
+  } = useSession();
+  const userId = user?.id ?? null;
   const [logs, setLogs] = useState<PoopEntry[]>([]);
-  const [userId, setUserId] = useState<number | null>(null);
-  const [apiBase, setApiBase] = useState<string | null>(null);
   const [viewDate, setViewDate] = useState<Date>(() => new Date());
   const [selectedDate, setSelectedDate] = useState<Date>(() => new Date());
-  const [loading, setLoading] = useState(true);
+  const [monthLoading, setMonthLoading] = useState(false);
   const [deleting, setDeleting] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [pageError, setPageError] = useState<string | null>(null);
   const [confirmTarget, setConfirmTarget] = useState<PoopEntry | null>(null);
-
-  useEffect(() => {
-    const load = async () => {
-      setLoading(true);
-      setError(null);
-      const apiBaseParam =
-        searchParams.get("api") ||
-        searchParams.get("api_base") ||
-        searchParams.get("apiBase");
-
-      setApiBase(apiBaseParam);
-
-      let username = searchParams.get("username");
-      let uid = searchParams.get("uid");
-
-      if (typeof window !== "undefined") {
-        if (!username) username = localStorage.getItem(STORAGE_USERNAME_KEY);
-        if (!uid) uid = localStorage.getItem(STORAGE_UID_KEY);
-      }
-
-      if (!uid && !username) {
-        setError("Nessun username/uid fornito");
-        setLoading(false);
-
-        return;
-      }
-
-      try {
-        const qs = uid
-          ? `uid=${encodeURIComponent(uid)}`
-          : `username=${encodeURIComponent(username as string)}`;
-        const userUrl = buildApiUrl(`/webapp/userinfo?${qs}`, apiBaseParam);
-        const res = await fetch(userUrl, { cache: "no-store" });
-        const body = await res.text();
-
-        if (!res.ok) throw new Error(`HTTP ${res.status} ${body}`);
-        const data = JSON.parse(body) as UserInfoResponse;
-
-        if (typeof window !== "undefined") {
-          if (username) localStorage.setItem(STORAGE_USERNAME_KEY, username);
-          if (uid) localStorage.setItem(STORAGE_UID_KEY, uid);
-        }
-
-        if (data.game_config) {
-          setConfig((prev) => prev || data.game_config || null);
-        }
-
-        if (data.user?.id) {
-          setUserId(data.user.id);
-        }
-      } catch (err) {
-        console.warn("Pooplog page load failed", err);
-        setError("Impossibile caricare il PoopLog");
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    load();
-  }, [searchParams]);
+  const [editTarget, setEditTarget] = useState<PoopEntry | null>(null);
+  const [createOn, setCreateOn] = useState<Date | null>(null);
+  const [updating, setUpdating] = useState(false);
+  const [query, setQuery] = useState("");
+  const [xpOpenId, setXpOpenId] = useState<number | null>(null);
+  const [freezing, setFreezing] = useState(false);
+  const searchParams = useSearchParams();
+  // Link dalla schermata WC: ?day= seleziona un giorno, ?from= evidenzia
+  // l'intervallo fino a quel giorno (es. lo streak).
+  const focusDay = searchParams.get("day");
+  const focusFrom = searchParams.get("from");
+  const searchTerm = query.trim().toLowerCase();
+  const loading = sessionLoading || monthLoading;
+  const error = pageError || sessionError;
 
   const fetchMonthPoops = useCallback(async () => {
     if (!userId) return;
-    setLoading(true);
-    setError(null);
+    setMonthLoading(true);
+    setPageError(null);
     const year = viewDate.getFullYear();
     const month = viewDate.getMonth() + 1;
 
     try {
-      const url = buildApiUrl(
-        `/user/${userId}/poops/month?year=${year}&month=${month}`,
-        apiBase,
-      );
-      const res = await fetch(url, { cache: "no-store" });
-      const body = await res.text();
-
-      if (!res.ok) throw new Error(`HTTP ${res.status} ${body}`);
-      const data = JSON.parse(body) as MonthlyPoopsResponse;
+      const data = await api.getMonthlyPoops(userId, year, month);
 
       setLogs(data.poops || []);
     } catch (err) {
       console.warn("Monthly poops load failed", err);
-      setError("Impossibile caricare il PoopLog");
+      setPageError("Impossibile caricare il PoopLog");
     } finally {
-      setLoading(false);
+      setMonthLoading(false);
     }
-  }, [apiBase, userId, viewDate]);
+  }, [userId, viewDate]);
 
   useEffect(() => {
     fetchMonthPoops();
   }, [fetchMonthPoops]);
 
+  useEffect(() => {
+    const day = dayFromKey(focusDay);
+
+    if (!day || day > new Date()) return;
+    setViewDate(new Date(day.getFullYear(), day.getMonth(), 1));
+    setSelectedDate(day);
+  }, [focusDay]);
+
   const logsByDay = useMemo(() => {
     const map = new Map<string, PoopEntry[]>();
 
@@ -266,9 +167,25 @@ function PageContent() {
     );
   }, [logsByDay, selectedDate]);
 
+  // Con una ricerca attiva mostriamo i risultati di tutto il mese.
+  const visibleLogs = useMemo(() => {
+    if (!searchTerm) return dailyLogs;
+
+    return logs
+      .filter((log) => matchesQuery(log, searchTerm, config))
+      .sort(
+        (a, b) =>
+          parseDate(b.created_at).getTime() - parseDate(a.created_at).getTime(),
+      );
+  }, [searchTerm, dailyLogs, logs, config]);
+
   const dailyXp = useMemo(
-    () => dailyLogs.reduce((sum, log) => sum + computeXp(log, config), 0),
-    [dailyLogs, config],
+    () =>
+      visibleLogs.reduce(
+        (sum, log) => sum + loggedXpBreakdown(log, config).total,
+        0,
+      ),
+    [visibleLogs, config],
   );
 
   const monthTitle = useMemo(
@@ -318,6 +235,64 @@ function PageContent() {
   const calendarCells = useMemo(buildCalendarCells, [viewDate]);
   const today = useMemo(() => new Date(), []);
 
+  // Si può aggiungere un log solo nei giorni dentro la finestra retroattiva.
+  const canAddOnSelected = useMemo(() => {
+    const earliest = earliestBackdate(config, today);
+    const dayEnd = new Date(selectedDate);
+
+    dayEnd.setHours(23, 59, 59, 999);
+
+    return selectedDate <= today && dayEnd >= earliest;
+  }, [config, selectedDate, today]);
+
+  const selectedKey = dateKey(selectedDate);
+  const selectedFrozen = isFrozenDay(streak, selectedKey);
+  const canFreezeSelected = canFreezeDay(
+    selectedDate,
+    selectedKey,
+    Boolean(logsByDay.get(selectedKey)?.length),
+    streak,
+    today,
+  );
+  const nextFreezeIn = xpToNextFreeze(progress, streak, config);
+
+  const freezeSelected = async () => {
+    if (!userId || freezing) return;
+    setFreezing(true);
+    setPageError(null);
+    try {
+      applyServerState(await api.freezeStreakDay(userId, selectedKey));
+    } catch (err) {
+      console.warn("Streak freeze failed", err);
+      setPageError("Impossibile congelare questo giorno");
+    } finally {
+      setFreezing(false);
+    }
+  };
+
+  const toggleAutoFreeze = async (enabled: boolean) => {
+    if (!userId || freezing) return;
+    setFreezing(true);
+    setPageError(null);
+    try {
+      applyServerState(await api.setAutoFreeze(userId, enabled));
+    } catch (err) {
+      console.warn("Auto freeze update failed", err);
+      setPageError("Impossibile aggiornare il congelamento automatico");
+    } finally {
+      setFreezing(false);
+    }
+  };
+
+  const openCreate = () => {
+    const now = new Date();
+    const at = new Date(selectedDate);
+
+    // Stessa ora di adesso, ma nel giorno selezionato (mai nel futuro).
+    at.setHours(now.getHours(), now.getMinutes(), 0, 0);
+    setCreateOn(at > now ? now : at);
+  };
+
   const shiftMonth = (delta: number) => {
     setViewDate((prev) => {
       const next = new Date(prev.getFullYear(), prev.getMonth() + delta, 1);
@@ -354,24 +329,77 @@ function PageContent() {
   const performDelete = async () => {
     if (!userId || !confirmTarget) return;
     setDeleting(true);
-    setError(null);
+    setPageError(null);
     try {
-      const url = buildApiUrl(`/poop/${confirmTarget.id}`, apiBase);
-      const res = await fetch(url, { method: "DELETE", cache: "no-store" });
-      const body = await res.text();
-
-      if (!res.ok) throw new Error(`HTTP ${res.status} ${body}`);
-      JSON.parse(body) as DeletePoopResponse;
-      await fetchMonthPoops();
+      await api.deletePoop(confirmTarget.id);
+      await Promise.all([fetchMonthPoops(), refresh()]);
       setConfirmTarget(null);
     } catch (err) {
       console.warn("Delete poop failed", err);
-      setError("Impossibile cancellare il log");
+      setPageError("Impossibile cancellare il log");
     } finally {
       setDeleting(false);
     }
   };
 
+  const performUpdate = async (payload: UpdatePoopPayload) => {
+    if (!userId || !editTarget) return;
+    setUpdating(true);
+    setPageError(null);
+    try {
+      const data = await api.updatePoop(editTarget.id, payload);
+
+      if (data?.stats || data?.progress) applyServerState(data);
+      else await refresh();
+      await fetchMonthPoops();
+      // Se il log è stato spostato in un altro giorno del mese, lo seguiamo.
+      if (payload.created_at) {
+        const moved = parseDate(payload.created_at);
+
+        if (
+          moved.getFullYear() === viewDate.getFullYear() &&
+          moved.getMonth() === viewDate.getMonth()
+        ) {
+          setSelectedDate(moved);
+        }
+      }
+      setEditTarget(null);
+    } catch (err) {
+      console.warn("Update poop failed", err);
+      setPageError("Impossibile modificare il log");
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const performCreate = async (payload: UpdatePoopPayload) => {
+    if (!userId || !payload.consistency || !payload.size || !payload.location) {
+      return;
+    }
+    setUpdating(true);
+    setPageError(null);
+    try {
+      await api.createPoop({
+        client_id: createClientId(),
+        consistency: payload.consistency,
+        size: payload.size,
+        location: payload.location,
+        note: payload.note || undefined,
+        tags: payload.tags?.length ? payload.tags : undefined,
+        created_at: payload.created_at,
+        backdated: payload.created_at ? true : undefined,
+      });
+      // refresh() riporta anche lo streak ricalcolato dal backend.
+      await Promise.all([fetchMonthPoops(), refresh()]);
+      setCreateOn(null);
+    } catch (err) {
+      console.warn("Create poop failed", err);
+      setPageError("Impossibile aggiungere il log");
+    } finally {
+      setUpdating(false);
+    }
+  };
+
   return (
     <>
       <div aria-hidden className="bg-layer-pooplog" />
@@ -379,6 +407,25 @@ function PageContent() {
         <div className="container">
           {error ? <div className="error">{error}</div> : null}
 
+          {streak ? (
+            <section className="freeze-bar">
+              <span>🔥 {stats.streak} giorni</span>
+              <span>🧊 {streak.freezes} gettoni</span>
+              <label className="auto-freeze">
+                <input
+                  checked={streak.auto_freeze}
+                  disabled={freezing}
+                  type="checkbox"
+                  onChange={(e) => toggleAutoFreeze(e.target.checked)}
+                />
+                Auto
+              </label>
+              {nextFreezeIn !== null ? (
+                <small>Prossimo gettone tra {nextFreezeIn} XP</small>
+              ) : null}
+            </section>
+          ) : null}
+
           <section className="calendar-card" id="calendarCard">
             <div className="calendar-header">
               <button
@@ -434,15 +481,21 @@ function PageContent() {
                   .join(" ");
                 const isToday = isSameDay(date, today);
                 const isSelected = isSameDay(date, selectedDate);
+                const key = dateKey(date);
+                const frozen = isFrozenDay(streak, key);
+                const inRange = Boolean(
+                  focusFrom && focusDay && key >= focusFrom && key <= focusDay,
+                );
 
                 return (
                   <div
-                    key={dateKey(date)}
-                    className={`day-cell active-day ${isSelected ? "selected" : ""}`}
+                    key={key}
+                    className={`day-cell active-day ${isSelected ? "selected" : ""} ${frozen ? "frozen" : ""} ${inRange ? "in-range" : ""}`}
                     onClick={() => setSelectedDate(date)}
                   >
                     <span className="day-num">{date.getDate()}</span>
                     {isToday ? <div className="today-badge">OGGI</div> : null}
+                    {frozen ? <div className="frozen-badge">🧊</div> : null}
                     {count > 0 ? (
                       <div className={counterClasses}>
                         {count > 9 ? "9+" : count}
@@ -454,22 +507,59 @@ function PageContent() {
             </div>
           </section>
 
+          <label className="search-box">
+            <Search size={16} />
+            <input
+              aria-label="Cerca nelle note"
+              placeholder="Cerca note e tag del mese..."
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+            />
+          </label>
+
           <div className="section-header">
-            <span className="date-label">{selectedLabel}</span>
-            <span className="xp-display">+{dailyXp} XP</span>
+            <span className="date-label">
+              {searchTerm
+                ? `${visibleLogs.length} risultati per “${query.trim()}”`
+                : selectedLabel}
+            </span>
+            <div className="section-actions">
+              {!searchTerm && canAddOnSelected ? (
+                <button
+                  aria-label="Aggiungi un log in questo giorno"
+                  className="btn-add"
+                  disabled={updating}
+                  type="button"
+                  onClick={openCreate}
+                >
+                  <Plus size={14} /> Log
+                </button>
+              ) : null}
+              <span className="xp-display">+{dailyXp} XP</span>
+            </div>
           </div>
 
           <div className="logs-list">
-            {dailyLogs.length ? (
-              dailyLogs.map((log) => {
+            {visibleLogs.length ? (
+              visibleLogs.map((log) => {
                 const cons = config?.consistency?.[log.consistency];
                 const size = config?.size?.[log.size];
                 const loc = config?.location?.[log.location];
-                const xp = computeXp(log, config);
-                const timeStr = parseDate(log.created_at).toLocaleTimeString(
-                  "it-IT",
-                  { hour: "2-digit", minute: "2-digit" },
-                );
+                const xp = loggedXpBreakdown(log, config);
+                const created = parseDate(log.created_at);
+                const timeStr = searchTerm
+                  ? created.toLocaleString("it-IT", {
+                      day: "numeric",
+                      month: "short",
+                      hour: "2-digit",
+                      minute: "2-digit",
+                    })
+                  : created.toLocaleTimeString("it-IT", {
+                      hour: "2-digit",
+                      minute: "2-digit",
+                    });
+                const labels = tagLabels(log, config);
 
                 return (
                   <div key={log.id} className="log-card">
@@ -484,9 +574,47 @@ function PageContent() {
                         </span>
                       </div>
                       <div className="log-details">
-                        {xp} XP • {timeStr}
+                        <button
+                          aria-expanded={xpOpenId === log.id}
+                          className="xp-toggle"
+                          type="button"
+                          onClick={() =>
+                            setXpOpenId((prev) =>
+                              prev === log.id ? null : log.id,
+                            )
+                          }
+                        >
+                          {xp.total} XP
+                        </button>{" "}
+                        • {timeStr}
                       </div>
+                      {xpOpenId === log.id ? (
+                        <div className="log-xp">
+                          <XpBreakdownList breakdown={xp} />
+                        </div>
+                      ) : null}
+                      {labels.length ? (
+                        <div className="log-tags">
+                          {labels.map((label) => (
+                            <span key={label} className="badge tag">
+                              {label}
+                            </span>
+                          ))}
+                        </div>
+                      ) : null}
+                      {log.note ? (
+                        <div className="log-note">“{log.note}”</div>
+                      ) : null}
                     </div>
+                    <button
+                      aria-label="Modifica log"
+                      className="btn-edit"
+                      disabled={deleting || updating}
+                      type="button"
+                      onClick={() => setEditTarget(log)}
+                    >
+                      <Pencil size={16} />
+                    </button>
                     <button
                       aria-label="Elimina log"
                       className="btn-trash"
@@ -500,7 +628,25 @@ function PageContent() {
                 );
               })
             ) : (
-              <div className="empty-state">💩 Nessun drop oggi.</div>
+              <>
+                <div className="empty-state">
+                  {searchTerm
+                    ? "🔍 Nessun log con queste note."
+                    : selectedFrozen
+                      ? "🧊 Giorno congelato: lo streak è salvo."
+                      : "💩 Nessun drop oggi."}
+                </div>
+                {!searchTerm && canFreezeSelected ? (
+                  <button
+                    className="btn-freeze"
+                    disabled={freezing}
+                    type="button"
+                    onClick={freezeSelected}
+                  >
+                    🧊 Usa un gettone per questo giorno
+                  </button>
+                ) : null}
+              </>
             )}
           </div>
         </div>
@@ -537,6 +683,26 @@ function PageContent() {
         </div>
       ) : null}
 
+      {editTarget ? (
+        <PoopEditSheet
+          config={config}
+          log={editTarget}
+          saving={updating}
+          onCancel={() => setEditTarget(null)}
+          onSave={performUpdate}
+        />
+      ) : null}
+      {createOn ? (
+        <PoopEditSheet
+          config={config}
+          initialDate={createOn}
+          log={null}
+          saving={updating}
+          onCancel={() => setCreateOn(null)}
+          onSave={performCreate}
+        />
+      ) : null}
+
       <LoaderOverlay
         emoji="🚽"
         show={loading}
@@ -694,6 +860,24 @@ function PageContent() {
           transform: translateY(4px);
         }
 
+        .day-cell.in-range:not(.selected) {
+          background: #fff3e0;
+          border-color: #ef6c00;
+        }
+
+        .day-cell.frozen:not(.selected) {
+          background: #e1f5fe;
+          border-color: #4fc3f7;
+        }
+
+        .frozen-badge {
+          position: absolute;
+          bottom: 2px;
+          right: 4px;
+          font-size: 0.75rem;
+          line-height: 1;
+        }
+
         .day-num {
           position: absolute;
           top: 4px;
@@ -782,6 +966,27 @@ function PageContent() {
           text-transform: capitalize;
         }
 
+        .section-actions {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+        }
+
+        .btn-add {
+          display: inline-flex;
+          align-items: center;
+          gap: 4px;
+          background: #fff;
+          border: 2px solid #3e2723;
+          color: #3e2723;
+          padding: 4px 10px;
+          border-radius: 12px;
+          font-size: 0.85rem;
+          font-weight: 900;
+          box-shadow: 2px 2px 0 #3e2723;
+          cursor: pointer;
+        }
+
         .xp-display {
           background: #ffecb3;
           border: 2px solid #ffca28;
@@ -842,12 +1047,85 @@ function PageContent() {
           color: #1b5e20;
         }
 
+        .search-box {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          background: #fff;
+          border: 2px solid #3e2723;
+          border-radius: 12px;
+          padding: 8px 10px;
+          margin-bottom: 14px;
+          color: #8d6e63;
+          box-shadow: 3px 3px 0 rgba(62, 39, 35, 0.15);
+        }
+
+        .search-box input {
+          flex: 1;
+          border: none;
+          outline: none;
+          background: transparent;
+          font-family: "Nunito", sans-serif;
+          font-weight: 700;
+          color: #3e2723;
+        }
+
+        .log-tags {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 4px;
+          margin-top: 6px;
+        }
+
+        .badge.tag {
+          background: #fff3e0;
+          color: #e65100;
+        }
+
+        .log-note {
+          margin-top: 6px;
+          font-size: 0.8rem;
+          font-style: italic;
+          color: #5d4037;
+          word-break: break-word;
+        }
+
         .log-details {
           font-size: 0.75rem;
           font-weight: 700;
           color: #8d6e63;
         }
 
+        .xp-toggle {
+          padding: 0;
+          border: none;
+          background: none;
+          font: inherit;
+          color: #e65100;
+          text-decoration: underline dotted;
+          cursor: pointer;
+        }
+
+        .log-xp {
+          margin-top: 6px;
+          padding: 6px 8px;
+          border-radius: 8px;
+          background: #fff8e1;
+          color: #5d4037;
+        }
+
+        .btn-edit {
+          width: 34px;
+          height: 34px;
+          background: #fff8e1;
+          border: 2px solid #ffa000;
+          color: #e65100;
+          border-radius: 8px;
+          display: grid;
+          place-items: center;
+          cursor: pointer;
+        }
+
         .btn-trash {
           width: 34px;
           height: 34px;
@@ -867,6 +1145,51 @@ function PageContent() {
           font-weight: 700;
         }
 
+        .btn-freeze {
+          display: block;
+          margin: -14px auto 0;
+          padding: 8px 14px;
+          border: 2px solid #3e2723;
+          border-radius: 12px;
+          background: #e1f5fe;
+          color: #01579b;
+          font-weight: 900;
+          cursor: pointer;
+          box-shadow: 3px 3px 0 #3e2723;
+        }
+
+        .btn-freeze:disabled {
+          opacity: 0.6;
+          cursor: not-allowed;
+        }
+
+        .freeze-bar {
+          display: flex;
+          align-items: center;
+          flex-wrap: wrap;
+          gap: 10px;
+          margin-bottom: 12px;
+          padding: 8px 12px;
+          background: #fff;
+          border: 2px solid #3e2723;
+          border-radius: 12px;
+          font-weight: 800;
+          font-size: 0.85rem;
+        }
+
+        .freeze-bar small {
+          width: 100%;
+          color: #6d4c41;
+          font-weight: 700;
+        }
+
+        .auto-freeze {
+          display: inline-flex;
+          align-items: center;
+          gap: 4px;
+          margin-left: auto;
+        }
+
         .error {
           background: #ffebee;
           border: 2px solid #ef5350;
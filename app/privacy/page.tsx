@@ -0,0 +1,390 @@
+"use client";
+
+import type { OptionCfg } from "@/types/gamification";
+
+import { Suspense, useEffect, useMemo, useState } from "react";
+
+import OptionGrid from "@/components/OptionGrid";
+import { useSession } from "@/components/SessionContext";
+import { createClientId } from "@/lib/offlineQueue";
+import { radiusFromInput } from "@/lib/places";
+import {
+  DEFAULT_PRIVACY,
+  defaultExclusionRadius,
+  effectiveGrid,
+  formatPrecision,
+  gridOptions,
+  loadPrivacySettings,
+  PrivacySettings,
+  savePrivacySettings,
+} from "@/lib/privacy";
+
+const MIN_SENSITIVE_RADIUS_M = 50;
+
+type SettingsPatch =
+  | Partial<PrivacySettings>
+  | ((prev: PrivacySettings) => Partial<PrivacySettings>);
+
+function PageContent() {
+  const { config } = useSession();
+  const [settings, setSettings] = useState<PrivacySettings>(DEFAULT_PRIVACY);
+  const [loaded, setLoaded] = useState(false);
+  const [radiusDrafts, setRadiusDrafts] = useState<Record<string, string>>({});
+  const [placeLabel, setPlaceLabel] = useState("");
+  const [locating, setLocating] = useState(false);
+  const [geoError, setGeoError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSettings(loadPrivacySettings());
+    setLoaded(true);
+  }, []);
+
+  // Si salva solo dopo il primo caricamento, per non sovrascrivere lo
+  // storage con i default.
+  useEffect(() => {
+    if (loaded) savePrivacySettings(settings);
+  }, [loaded, settings]);
+
+  const update = (patch: SettingsPatch) => {
+    setSettings((prev) => ({
+      ...prev,
+      ...(typeof patch === "function" ? patch(prev) : patch),
+    }));
+  };
+
+  const gridChoices = useMemo(() => {
+    const choices: Record<string, OptionCfg> = {};
+
+    gridOptions(config).forEach((m) => {
+      choices[String(m)] = {
+        label: m > 0 ? formatPrecision(m) : "Esatta",
+        emoji: m > 0 ? "📐" : "🎯",
+      };
+    });
+
+    return choices;
+  }, [config]);
+
+  const addCurrentPlace = () => {
+    if (typeof navigator === "undefined" || !navigator.geolocation) {
+      setGeoError("Geolocalizzazione non supportata dal dispositivo.");
+
+      return;
+    }
+    setLocating(true);
+    setGeoError(null);
+    navigator.geolocation.getCurrentPosition(
+      (pos) => {
+        update((prev) => ({
+          sensitive_places: [
+            ...prev.sensitive_places,
+            {
+              id: createClientId(),
+              label: placeLabel.trim() || "Luogo sensibile",
+              lat: Number(pos.coords.latitude.toFixed(6)),
+              lng: Number(pos.coords.longitude.toFixed(6)),
+              radius_m: defaultExclusionRadius(config),
+            },
+          ],
+        }));
+        setPlaceLabel("");
+        setLocating(false);
+      },
+      (err) => {
+        setGeoError(err.message || "Impossibile ottenere la posizione.");
+        setLocating(false);
+      },
+      { enableHighAccuracy: true, maximumAge: 0, timeout: 8000 },
+    );
+  };
+
+  const commitRadius = (id: string, fallback: number) => {
+    const draft = radiusDrafts[id];
+
+    if (draft === undefined) return;
+    const radius = radiusFromInput(draft, MIN_SENSITIVE_RADIUS_M, fallback);
+
+    setRadiusDrafts(({ [id]: _done, ...rest }) => rest);
+    update((prev) => ({
+      sensitive_places: prev.sensitive_places.map((p) =>
+        p.id === id ? { ...p, radius_m: radius } : p,
+      ),
+    }));
+  };
+
+  const removePlace = (id: string) => {
+    update((prev) => ({
+      sensitive_places: prev.sensitive_places.filter((p) => p.id !== id),
+    }));
+  };
+
+  return (
+    <main className="privacy-page">
+      <h1>Privacy 🛡️</h1>
+
+      <h2>Precisione condivisa</h2>
+      <p className="hint">
+        Le coordinate vengono arrotondate al centro di una griglia prima
+        dell&apos;invio: chi guarda la mappa vede solo la cella.
+      </p>
+      <OptionGrid
+        options={gridChoices}
+        selected={String(effectiveGrid(settings, config))}
+        onSelect={(key) => update({ grid_m: Number(key) })}
+      />
+
+      <h2>Visibilità</h2>
+      <div className="panel">
+        <label className="toggle">
+          <input
+            checked={settings.private_by_default}
+            type="checkbox"
+            onChange={(e) => update({ private_by_default: e.target.checked })}
+          />
+          <span>
+            🔒 Nuovi log privati
+            <small>
+              Visibili solo sulla tua mappa; puoi cambiarlo a ogni log.
+            </small>
+          </span>
+        </label>
+        <label className="toggle">
+          <input
+            checked={settings.anonymous}
+            type="checkbox"
+            onChange={(e) => update({ anonymous: e.target.checked })}
+          />
+          <span>
+            🥷 Appari come &quot;Anonimo&quot;
+            <small>Gli altri vedono i tuoi log pubblici senza username.</small>
+          </span>
+        </label>
+      </div>
+
+      <h2>Luoghi sensibili</h2>
+      <p className="hint">
+        Entro il raggio di questi luoghi le coordinate non vengono mai inviate.
+      </p>
+      <div className="panel">
+        {settings.sensitive_places.length ? (
+          <ul className="places">
+            {settings.sensitive_places.map((place) => (
+              <li key={place.id} className="place">
+                <div className="place-name">{place.label}</div>
+                <label className="radius">
+                  <input
+                    aria-label={`Raggio di ${place.label} in metri`}
+                    min={MIN_SENSITIVE_RADIUS_M}
+                    step={50}
+                    type="number"
+                    value={radiusDrafts[place.id] ?? place.radius_m}
+                    onBlur={() => commitRadius(place.id, place.radius_m)}
+                    onChange={(e) =>
+                      setRadiusDrafts((prev) => ({
+                        ...prev,
+                        [place.id]: e.target.value,
+                      }))
+                    }
+                  />
+                  m
+                </label>
+                <button
+                  aria-label={`Rimuovi ${place.label}`}
+                  className="remove"
+                  type="button"
+                  onClick={() => removePlace(place.id)}
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="empty">Nessun luogo salvato.</div>
+        )}
+        <div className="add-row">
+          <input
+            aria-label="Nome del luogo"
+            className="text"
+            placeholder="Es. Casa di nonna"
+            value={placeLabel}
+            onChange={(e) => setPlaceLabel(e.target.value)}
+          />
+          <button
+            className="add"
+            disabled={locating}
+            type="button"
+            onClick={addCurrentPlace}
+          >
+            {locating ? "Rilevo…" : "📍 Qui"}
+          </button>
+        </div>
+        {geoError ? <div className="error">{geoError}</div> : null}
+      </div>
+
+      {/* eslint-disable-next-line react/no-unknown-property */}
+      <style jsx>{`
+        .privacy-page {
+          max-width: 520px;
+          margin: 0 auto;
+          padding: 15px 15px 100px;
+          font-family: "Nunito", sans-serif;
+          color: #3e2723;
+        }
+
+        h1 {
+          font-family: "Titan One", cursive;
+          color: var(--brown);
+          margin: 0 0 10px;
+        }
+
+        h2 {
+          font-family: "Titan One", cursive;
+          color: var(--brown);
+          font-size: 1.1rem;
+          margin: 22px 0 6px;
+        }
+
+        .hint {
+          margin: 0 0 8px;
+          font-size: 0.85rem;
+          font-weight: 700;
+          color: #795548;
+        }
+
+        .panel {
+          background: var(--panel);
+          border: var(--border-width) solid var(--brown);
+          border-radius: 14px;
+          padding: 10px 12px;
+          box-shadow: 0px 4px 0px rgba(78, 52, 46, 0.15);
+          display: flex;
+          flex-direction: column;
+          gap: 10px;
+        }
+
+        .toggle {
+          display: flex;
+          gap: 10px;
+          align-items: flex-start;
+          font-weight: 800;
+          cursor: pointer;
+        }
+
+        .toggle input {
+          margin-top: 4px;
+          accent-color: var(--accent-dark);
+        }
+
+        .toggle small {
+          display: block;
+          font-weight: 700;
+          color: #795548;
+        }
+
+        .places {
+          list-style: none;
+          margin: 0;
+          padding: 0;
+          display: flex;
+          flex-direction: column;
+          gap: 6px;
+        }
+
+        .place {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+        }
+
+        .place-name {
+          flex: 1;
+          font-weight: 800;
+          word-break: break-word;
+        }
+
+        .radius {
+          display: inline-flex;
+          align-items: center;
+          gap: 4px;
+          font-weight: 800;
+        }
+
+        .radius input {
+          width: 72px;
+        }
+
+        .radius input,
+        .text {
+          border: 2px solid var(--brown);
+          border-radius: 10px;
+          padding: 6px 8px;
+          font-family: "Nunito", sans-serif;
+          font-weight: 800;
+          color: var(--brown);
+          background: #fff;
+        }
+
+        .remove {
+          border: 2px solid var(--brown);
+          border-radius: 10px;
+          background: #fff;
+          color: #c62828;
+          font-weight: 900;
+          padding: 4px 10px;
+          cursor: pointer;
+        }
+
+        .empty {
+          font-weight: 700;
+          color: #795548;
+        }
+
+        .add-row {
+          display: flex;
+          gap: 8px;
+        }
+
+        .text {
+          flex: 1;
+          min-width: 0;
+        }
+
+        .add {
+          background: var(--blue);
+          color: white;
+          font-weight: 800;
+          border: 3px solid var(--brown);
+          border-radius: 12px;
+          padding: 6px 12px;
+          cursor: pointer;
+          box-shadow: 0px 4px 0px var(--brown);
+        }
+
+        .add:disabled {
+          opacity: 0.6;
+          cursor: not-allowed;
+          box-shadow: none;
+        }
+
+        .error {
+          color: #b71c1c;
+          font-weight: 800;
+          font-size: 0.9rem;
+        }
+      `}</style>
+    </main>
+  );
+}
+
+export default function Page() {
+  return (
+    <Suspense
+      fallback={
+        <div style={{ padding: 20, textAlign: "center" }}>Caricamento…</div>
+      }
+    >
+      <PageContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,252 @@
+"use client";
+
+import type { ConditionLog } from "@/lib/achievements";
+import type { QuestReward } from "@/types/api";
+
+import { Suspense, useEffect, useMemo, useState } from "react";
+
+import LoaderOverlay from "@/components/LoaderOverlay";
+import QuestList from "@/components/QuestList";
+import { useSession } from "@/components/SessionContext";
+import { api, isAbortError } from "@/lib/api";
+import {
+  loadQuestLogs,
+  questStatuses,
+  rewardEmoji,
+  rewardTitle,
+} from "@/lib/quests";
+
+function periodLabel(item: QuestReward) {
+  if (item.period_key.includes("-W")) {
+    const [year, week] = item.period_key.split("-W");
+
+    return `Settimana ${Number(week)} · ${year}`;
+  }
+
+  return new Date(`${item.period_key}T12:00:00`).toLocaleDateString("it-IT", {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+  });
+}
+
+function PageContent() {
+  const { user, config, stats, loading: sessionLoading } = useSession();
+  const [logs, setLogs] = useState<ConditionLog[]>([]);
+  const [history, setHistory] = useState<QuestReward[]>([]);
+  const [logsLoading, setLogsLoading] = useState(false);
+  const [pageError, setPageError] = useState<string | null>(null);
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) return undefined;
+    const controller = new AbortController();
+
+    setLogsLoading(true);
+    setPageError(null);
+    loadQuestLogs(userId, new Date(), { signal: controller.signal })
+      .then(setLogs)
+      .catch((err) => {
+        if (isAbortError(err)) return;
+        console.warn("Quest logs load failed", err);
+        setPageError("Impossibile caricare le quest");
+      })
+      .finally(() => setLogsLoading(false));
+
+    return () => controller.abort();
+  }, [userId]);
+
+  const quests = useMemo(
+    () => questStatuses(config, logs, stats),
+    [config, logs, stats],
+  );
+  const daily = quests.filter((q) => q.quest.period === "daily");
+  const weekly = quests.filter((q) => q.quest.period === "weekly");
+  const earned = history.reduce((sum, item) => sum + item.xp, 0);
+
+  // Storico e XP bonus vengono dal server: contano solo i bonus assegnati.
+  useEffect(() => {
+    if (!userId) return undefined;
+    const controller = new AbortController();
+
+    api
+      .getQuestHistory(userId, { signal: controller.signal })
+      .then((data) => setHistory(data?.completions || []))
+      .catch((err) => {
+        if (isAbortError(err)) return;
+        console.warn("Quest history load failed", err);
+        setPageError("Impossibile caricare lo storico delle quest");
+      });
+
+    return () => controller.abort();
+  }, [userId, stats.total]);
+
+  return (
+    <main className="quests-page">
+      <h1>Quest 🎯</h1>
+
+      <div className="summary">
+        <div className="stat">
+          <div className="stat-val">{history.length}</div>
+          <div className="stat-label">Completate</div>
+        </div>
+        <div className="stat">
+          <div className="stat-val">+{earned}</div>
+          <div className="stat-label">XP bonus</div>
+        </div>
+      </div>
+
+      {pageError ? <div className="error">{pageError}</div> : null}
+
+      <h2>Di oggi</h2>
+      <QuestList quests={daily} />
+
+      <h2>Della settimana</h2>
+      <QuestList quests={weekly} />
+
+      <h2>Storico</h2>
+      {history.length ? (
+        <ul className="history">
+          {history.map((item) => (
+            <li key={`${item.id}-${item.period_key}`} className="row">
+              <span className="emoji">{rewardEmoji(item, config)}</span>
+              <div className="info">
+                <div className="title">{rewardTitle(item, config)}</div>
+                <div className="when">{periodLabel(item)}</div>
+              </div>
+              <span className="xp">+{item.xp} XP</span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className="empty">Nessuna quest completata ancora. 🚽</div>
+      )}
+
+      <LoaderOverlay
+        emoji="🎯"
+        show={sessionLoading || (logsLoading && !logs.length)}
+        subtitle="Controllo i progressi..."
+        title="Quest"
+      />
+
+      {/* eslint-disable-next-line react/no-unknown-property */}
+      <style jsx>{`
+        .quests-page {
+          max-width: 520px;
+          margin: 0 auto;
+          padding: 15px 15px 100px;
+          font-family: "Nunito", sans-serif;
+          color: #3e2723;
+        }
+
+        h1 {
+          font-family: "Titan One", cursive;
+          color: var(--brown);
+          margin: 0 0 10px;
+        }
+
+        h2 {
+          font-family: "Titan One", cursive;
+          color: var(--brown);
+          font-size: 1.1rem;
+          margin: 20px 0 8px;
+        }
+
+        .summary {
+          display: grid;
+          grid-template-columns: repeat(2, 1fr);
+          gap: 8px;
+        }
+
+        .stat {
+          padding: 8px;
+          text-align: center;
+          background: var(--panel);
+          border: var(--border-width) solid var(--brown);
+          border-radius: 14px;
+          box-shadow: 0px 4px 0px rgba(78, 52, 46, 0.15);
+        }
+
+        .stat-val {
+          font-family: "Titan One", cursive;
+          font-size: 1.2rem;
+          color: var(--brown);
+        }
+
+        .stat-label {
+          font-size: 0.75rem;
+          font-weight: 800;
+          color: #795548;
+        }
+
+        .history {
+          list-style: none;
+          margin: 0;
+          padding: 0;
+          display: flex;
+          flex-direction: column;
+          gap: 6px;
+        }
+
+        .row {
+          display: flex;
+          align-items: center;
+          gap: 10px;
+          background: #fff;
+          border: 2px solid var(--brown);
+          border-radius: 12px;
+          padding: 6px 10px;
+        }
+
+        .emoji {
+          font-size: 1.3rem;
+        }
+
+        .info {
+          flex: 1;
+          min-width: 0;
+        }
+
+        .title {
+          font-weight: 900;
+        }
+
+        .when {
+          font-size: 0.75rem;
+          font-weight: 700;
+          color: #8d6e63;
+        }
+
+        .xp {
+          font-family: "Titan One", cursive;
+          color: #2e7d32;
+          white-space: nowrap;
+        }
+
+        .empty {
+          text-align: center;
+          font-weight: 800;
+          color: #795548;
+        }
+
+        .error {
+          margin-top: 12px;
+          color: #b71c1c;
+          font-weight: 800;
+        }
+      `}</style>
+    </main>
+  );
+}
+
+export default function Page() {
+  return (
+    <Suspense
+      fallback={
+        <div style={{ padding: 20, textAlign: "center" }}>Caricamento…</div>
+      }
+    >
+      <PageContent />
+    </Suspense>
+  );
+}
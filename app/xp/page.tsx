@@ -0,0 +1,387 @@
+"use client";
+
+import type { XpLedgerEntry } from "@/types/api";
+import type { GameConfig } from "@/types/gamification";
+
+import { Suspense, useEffect, useMemo, useState } from "react";
+
+import LoaderOverlay from "@/components/LoaderOverlay";
+import { useSession } from "@/components/SessionContext";
+import XpBreakdownList from "@/components/XpBreakdownList";
+import XpChart from "@/components/XpChart";
+import { api, isAbortError } from "@/lib/api";
+import { loggedXpBreakdown } from "@/lib/xp";
+import { buildLedger } from "@/lib/xpLedger";
+
+const PAGE_SIZE = 200;
+const MAX_PAGES = 10;
+
+const KIND_EMOJI: Record<XpLedgerEntry["kind"], string> = {
+  poop: "💩",
+  achievement: "🏆",
+  deletion: "🗑️",
+  adjustment: "⚖️",
+};
+
+function entryTitle(entry: XpLedgerEntry, config?: GameConfig | null) {
+  const poop = entry.poop;
+  const poopLabel = poop
+    ? [
+        config?.consistency?.[poop.consistency]?.label || poop.consistency,
+        config?.size?.[poop.size]?.label || poop.size,
+      ].join(" · ")
+    : "";
+
+  if (entry.kind === "achievement") {
+    const ach = entry.achievement;
+
+    return ach?.title || ach?.label || ach?.id || "Achievement";
+  }
+  if (entry.kind === "deletion") {
+    return poopLabel ? `Log eliminato: ${poopLabel}` : "Log eliminato";
+  }
+  if (entry.kind === "adjustment") return entry.reason || "Rettifica";
+
+  return poopLabel || "Flush";
+}
+
+function formatWhen(value: string) {
+  return new Date(value).toLocaleString("it-IT", {
+    day: "2-digit",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function PageContent() {
+  const {
+    user,
+    config,
+    progress,
+    loading: sessionLoading,
+    error: sessionError,
+  } = useSession();
+  const [entries, setEntries] = useState<XpLedgerEntry[]>([]);
+  const [ledgerLoading, setLedgerLoading] = useState(false);
+  const [pageError, setPageError] = useState<string | null>(null);
+  const [openId, setOpenId] = useState<number | null>(null);
+  const userId = user?.id;
+  const error = pageError || sessionError;
+
+  useEffect(() => {
+    if (!userId) return undefined;
+    const controller = new AbortController();
+
+    const loadAll = async () => {
+      const all: XpLedgerEntry[] = [];
+      let offset = 0;
+
+      for (let page = 0; page < MAX_PAGES; page += 1) {
+        const data = await api.getXpLedger(
+          userId,
+          { limit: PAGE_SIZE, offset },
+          { signal: controller.signal },
+        );
+        const received = data?.entries || [];
+
+        all.push(...received);
+        setEntries([...all]);
+        // `next_offset: null` segna la fine del registro.
+        if (received.length < PAGE_SIZE || data.next_offset === null) break;
+        offset = data.next_offset ?? offset + received.length;
+      }
+    };
+
+    setLedgerLoading(true);
+    setPageError(null);
+    loadAll()
+      .catch((err) => {
+        if (isAbortError(err)) return;
+        console.warn("XP ledger load failed", err);
+        setPageError("Impossibile caricare lo storico XP");
+      })
+      .finally(() => setLedgerLoading(false));
+
+    return () => controller.abort();
+  }, [userId]);
+
+  const rows = useMemo(
+    () => buildLedger(entries, progress),
+    [entries, progress],
+  );
+  const newestFirst = useMemo(() => [...rows].reverse(), [rows]);
+  const earned = entries.reduce((sum, e) => (e.xp > 0 ? sum + e.xp : sum), 0);
+  const lost = entries.reduce((sum, e) => (e.xp < 0 ? sum - e.xp : sum), 0);
+
+  return (
+    <main className="xp-page">
+      <h1>Storico XP ✨</h1>
+
+      <div className="summary">
+        <div className="stat">
+          <div className="stat-val">{progress?.level ?? "?"}</div>
+          <div className="stat-label">Livello</div>
+        </div>
+        <div className="stat">
+          <div className="stat-val">{progress?.xp_total ?? 0}</div>
+          <div className="stat-label">XP totali</div>
+        </div>
+        <div className="stat">
+          <div className="stat-val">
+            {progress?.xp_in_level ?? 0}/{progress?.xp_for_next ?? "?"}
+          </div>
+          <div className="stat-label">Nel livello</div>
+        </div>
+      </div>
+
+      <div className="panel">
+        <XpChart rows={rows} />
+        <div className="totals">
+          <span>+{earned} guadagnati</span>
+          <span>−{lost} persi</span>
+        </div>
+      </div>
+
+      {error ? <div className="error">{error}</div> : null}
+
+      <ul className="ledger">
+        {newestFirst.map((row) => {
+          const { entry } = row;
+          const breakdown =
+            entry.kind === "poop" && entry.poop
+              ? loggedXpBreakdown(
+                  { ...entry.poop, xp_awarded: entry.xp },
+                  config,
+                )
+              : null;
+
+          return (
+            <li key={entry.id}>
+              {row.levelUp ? (
+                <div className="level-up">⬆️ Livello {row.levelUp}</div>
+              ) : null}
+              <div className={`row ${entry.xp < 0 ? "minus" : ""}`}>
+                <span className="kind">{KIND_EMOJI[entry.kind] || "✨"}</span>
+                <div className="info">
+                  {breakdown ? (
+                    <button
+                      aria-expanded={openId === entry.id}
+                      className="title link"
+                      type="button"
+                      onClick={() =>
+                        setOpenId((prev) =>
+                          prev === entry.id ? null : entry.id,
+                        )
+                      }
+                    >
+                      {entryTitle(entry, config)}
+                    </button>
+                  ) : (
+                    <div className="title">{entryTitle(entry, config)}</div>
+                  )}
+                  <div className="when">{formatWhen(entry.created_at)}</div>
+                  {breakdown && openId === entry.id ? (
+                    <div className="breakdown">
+                      <XpBreakdownList breakdown={breakdown} />
+                    </div>
+                  ) : null}
+                </div>
+                <div className="amounts">
+                  <div className="delta">
+                    {entry.xp >= 0 ? "+" : ""}
+                    {entry.xp}
+                  </div>
+                  <div className="running">{row.total} XP</div>
+                </div>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+      {!ledgerLoading && !newestFirst.length && !error ? (
+        <div className="empty">Nessun movimento XP ancora. 🚽</div>
+      ) : null}
+
+      <LoaderOverlay
+        emoji="✨"
+        show={sessionLoading || (ledgerLoading && !entries.length)}
+        subtitle="Conto gli XP..."
+        title="Storico XP"
+      />
+
+      {/* eslint-disable-next-line react/no-unknown-property */}
+      <style jsx>{`
+        .xp-page {
+          max-width: 520px;
+          margin: 0 auto;
+          padding: 15px 15px 100px;
+          font-family: "Nunito", sans-serif;
+          color: #3e2723;
+        }
+
+        h1 {
+          font-family: "Titan One", cursive;
+          color: var(--brown);
+          margin: 0 0 10px;
+        }
+
+        .summary {
+          display: grid;
+          grid-template-columns: repeat(3, 1fr);
+          gap: 8px;
+          margin-bottom: 12px;
+        }
+
+        .stat,
+        .panel {
+          background: var(--panel);
+          border: var(--border-width) solid var(--brown);
+          border-radius: 14px;
+          box-shadow: 0px 4px 0px rgba(78, 52, 46, 0.15);
+        }
+
+        .stat {
+          padding: 8px;
+          text-align: center;
+        }
+
+        .stat-val {
+          font-family: "Titan One", cursive;
+          font-size: 1.2rem;
+          color: var(--brown);
+        }
+
+        .stat-label {
+          font-size: 0.75rem;
+          font-weight: 800;
+          color: #795548;
+        }
+
+        .panel {
+          padding: 10px 12px;
+        }
+
+        .totals {
+          display: flex;
+          justify-content: space-between;
+          margin-top: 6px;
+          font-weight: 800;
+          font-size: 0.85rem;
+          color: #5d4037;
+        }
+
+        .ledger {
+          list-style: none;
+          margin: 16px 0 0;
+          padding: 0;
+          display: flex;
+          flex-direction: column;
+          gap: 8px;
+        }
+
+        .level-up {
+          margin-bottom: 8px;
+          text-align: center;
+          font-family: "Titan One", cursive;
+          color: #e65100;
+        }
+
+        .row {
+          display: flex;
+          align-items: flex-start;
+          gap: 10px;
+          background: #fff;
+          border: 2px solid var(--brown);
+          border-radius: 12px;
+          padding: 8px 10px;
+        }
+
+        .kind {
+          font-size: 1.4rem;
+        }
+
+        .info {
+          flex: 1;
+          min-width: 0;
+        }
+
+        .title {
+          font-weight: 900;
+          word-break: break-word;
+        }
+
+        .link {
+          padding: 0;
+          border: none;
+          background: none;
+          font: inherit;
+          font-weight: 900;
+          color: inherit;
+          text-align: left;
+          text-decoration: underline dotted;
+          cursor: pointer;
+        }
+
+        .when {
+          font-size: 0.75rem;
+          font-weight: 700;
+          color: #8d6e63;
+        }
+
+        .breakdown {
+          margin-top: 6px;
+          padding: 6px 8px;
+          border-radius: 8px;
+          background: #fff8e1;
+          color: #5d4037;
+        }
+
+        .amounts {
+          text-align: right;
+          white-space: nowrap;
+        }
+
+        .delta {
+          font-family: "Titan One", cursive;
+          color: #2e7d32;
+        }
+
+        .minus .delta {
+          color: #c62828;
+        }
+
+        .running {
+          font-size: 0.75rem;
+          font-weight: 800;
+          color: #8d6e63;
+        }
+
+        .empty {
+          margin-top: 16px;
+          text-align: center;
+          font-weight: 800;
+          color: #795548;
+        }
+
+        .error {
+          margin-top: 12px;
+          color: #b71c1c;
+          font-weight: 800;
+        }
+      `}</style>
+    </main>
+  );
+}
+
+export default function Page() {
+  return (
+    <Suspense
+      fallback={
+        <div style={{ padding: 20, textAlign: "center" }}>Caricamento…</div>
+      }
+    >
+      <PageContent />
+    </Suspense>
+  );
+}
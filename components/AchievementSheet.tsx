@@ -0,0 +1,134 @@
+import type { AchievementCard, GameConfig } from "@/types/gamification";
+
+import styles from "./AchievementSheet.module.css";
+
+import { conditionText, rarityLabel } from "@/lib/achievements";
+
+type Props = {
+  achievement: AchievementCard | null;
+  config: GameConfig | null;
+  onClose: () => void;
+};
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString("it-IT", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+}
+
+export default function AchievementSheet({
+  achievement: ach,
+  config,
+  onClose,
+}: Props) {
+  if (!ach) return null;
+  const secret = Boolean(ach.hidden) && !ach.unlocked;
+  const freezes = config?.streak_freeze?.achievement_tokens?.[ach.id];
+  const howTo =
+    ach.condition && config ? conditionText(ach.condition, config) : "";
+
+  return (
+    <div aria-modal="true" className={styles.overlay} role="dialog">
+      <div className={styles.sheet}>
+        <div className={styles.head}>
+          <div className={styles.emoji}>{ach.emoji}</div>
+          <div className={styles.title}>{ach.title}</div>
+          <button
+            aria-label="Chiudi"
+            className={styles.close}
+            type="button"
+            onClick={onClose}
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className={styles.badges}>
+          <span className={ach.unlocked ? styles.done : styles.todo}>
+            {ach.unlocked
+              ? ach.unlocked_at
+                ? `✅ Sbloccato il ${formatDate(ach.unlocked_at)}`
+                : "✅ Sbloccato"
+              : "🔒 Da sbloccare"}
+          </span>
+          {ach.rarity_pct !== undefined ? (
+            <span className={styles.rarity}>
+              {rarityLabel(ach.rarity_pct)} · {Math.round(ach.rarity_pct)}% dei
+              giocatori
+            </span>
+          ) : null}
+          {!secret && freezes ? (
+            <span className={styles.rarity}>
+              🧊 +{freezes} {freezes === 1 ? "gettone" : "gettoni"} streak
+            </span>
+          ) : null}
+          {ach.year ? (
+            <span className={styles.rarity}>📅 Stagione {ach.year}</span>
+          ) : null}
+          {ach.expired ? (
+            <span className={styles.todo}>⌛ Stagione finita</span>
+          ) : null}
+        </div>
+
+        {ach.description ? (
+          <p className={styles.description}>{ach.description}</p>
+        ) : null}
+
+        {howTo ? (
+          <>
+            <h3 className={styles.label}>Come si sblocca</h3>
+            <p className={styles.howTo}>{howTo}</p>
+          </>
+        ) : null}
+
+        {ach.progress ? (
+          <>
+            <h3 className={styles.label}>Progresso</h3>
+            <div className={styles.progressRow}>
+              <span>{ach.progress.label}</span>
+              <span>
+                {Math.min(ach.progress.current, ach.progress.target)} /{" "}
+                {ach.progress.target}
+              </span>
+            </div>
+            <div className={styles.track}>
+              <div
+                className={styles.fill}
+                style={{ width: `${Math.min(100, ach.progress.pct)}%` }}
+              />
+            </div>
+            {ach.progress.parts ? (
+              <ul className={styles.parts}>
+                {ach.progress.parts.map((part, idx) => (
+                  <li key={`${part.label}-${idx}`}>
+                    <span>
+                      {part.met ? "✅" : "⬜"} {part.label}
+                    </span>
+                    <span>
+                      {Math.min(part.current, part.target)} / {part.target}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            ) : null}
+          </>
+        ) : null}
+
+        {ach.expired ? (
+          <div className={styles.expired}>
+            Questo obiettivo valeva solo per il {ach.year}: non si può più
+            sbloccare.
+          </div>
+        ) : secret ? (
+          <div className={styles.hint}>
+            {ach.hint
+              ? `💡 ${ach.hint}`
+              : "🤫 Obiettivo segreto: continua a giocare!"}
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
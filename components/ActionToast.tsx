@@ -0,0 +1,51 @@
+import styles from "./ActionToast.module.css";
+
+export type ToastAction = {
+  label: string;
+  onClick: () => void;
+};
+
+type Props = {
+  message: string | null;
+  emoji?: string;
+  actions?: ToastAction[];
+  onClose: () => void;
+};
+
+export default function ActionToast({
+  message,
+  emoji = "⚠️",
+  actions = [],
+  onClose,
+}: Props) {
+  if (!message) return null;
+
+  return (
+    <div aria-live="assertive" className={styles.toast} role="status">
+      <div className={styles.card}>
+        <span className={styles.icon}>{emoji}</span>
+        <span className={styles.message}>{message}</span>
+        <div className={styles.actions}>
+          {actions.map((action) => (
+            <button
+              key={action.label}
+              className={styles.action}
+              type="button"
+              onClick={action.onClick}
+            >
+              {action.label}
+            </button>
+          ))}
+          <button
+            aria-label="Chiudi"
+            className={styles.close}
+            type="button"
+            onClick={onClose}
+          >
+            ✕
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
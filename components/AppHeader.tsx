@@ -7,6 +7,10 @@ import {
   Home as HomeIcon,
   Menu,
   MapPin,
+  MapPinned,
+  Shield,
+  Sparkles,
+  Target,
   Trophy,
 } from "lucide-react";
 import { useMemo, useState } from "react";
@@ -24,6 +28,10 @@ const navLinks = [
     Icon: Trophy,
   },
   { key: "geopoop", label: "GeoPoop", href: "/geopoop", Icon: MapPin },
+  { key: "quests", label: "Quest", href: "/quests", Icon: Target },
+  { key: "xp", label: "Storico XP", href: "/xp", Icon: Sparkles },
+  { key: "places", label: "I miei posti", href: "/places", Icon: MapPinned },
+  { key: "privacy", label: "Privacy", href: "/privacy", Icon: Shield },
 ];
 
 const getActiveSection = (pathname: string | null) => {
@@ -33,6 +41,10 @@ const getActiveSection = (pathname: string | null) => {
   if (pathname.startsWith("/poopbucket")) return "poopbucket";
   if (pathname.startsWith("/achivments")) return "achievements";
   if (pathname.startsWith("/geopoop")) return "geopoop";
+  if (pathname.startsWith("/quests")) return "quests";
+  if (pathname.startsWith("/xp")) return "xp";
+  if (pathname.startsWith("/places")) return "places";
+  if (pathname.startsWith("/privacy")) return "privacy";
   if (pathname === "/") return "wc";
 
   return "wc";
@@ -63,13 +75,27 @@ export const AppHeader = () => {
           </div>
           <div className="stats">
             <div className="name">{state.playerName}</div>
-            <div className="xp-row">
-              <div className="xp-container">
-                <div className="xp-fill" style={{ width: `${xpPercent}%` }} />
-              </div>
-              <div className="level-badge">
-                LVL {state.progress?.level ?? "?"}
-              </div>
+            {state.levelTitle ? (
+              <div className="level-title">{state.levelTitle}</div>
+            ) : null}
+            <div className="progress-line">
+              <Link aria-label="Storico XP" className="xp-row" href="/xp">
+                <div className="xp-container">
+                  <div className="xp-fill" style={{ width: `${xpPercent}%` }} />
+                </div>
+                <div className="level-badge">
+                  LVL {state.progress?.level ?? "?"}
+                </div>
+              </Link>
+              {state.freezes !== null ? (
+                <Link
+                  aria-label={`${state.freezes} gettoni congela-streak`}
+                  className="freeze-chip"
+                  href="/pooplog"
+                >
+                  🧊 {state.freezes}
+                </Link>
+              ) : null}
             </div>
           </div>
         </div>
@@ -192,11 +218,41 @@ export const AppHeader = () => {
           text-overflow: ellipsis;
         }
 
+        .level-title {
+          margin: -2px 0 6px;
+          font-size: 0.75rem;
+          font-weight: 800;
+          color: #795548;
+          white-space: nowrap;
+          overflow: hidden;
+          text-overflow: ellipsis;
+        }
+
+        .progress-line {
+          display: flex;
+          align-items: center;
+          gap: 6px;
+        }
+
+        .freeze-chip {
+          background: #e1f5fe;
+          color: #01579b;
+          font-family: "Titan One";
+          font-size: 0.8rem;
+          padding: 3px 6px;
+          border: 2px solid var(--brown);
+          border-radius: 8px;
+          white-space: nowrap;
+          text-decoration: none;
+        }
+
         .xp-row {
           display: flex;
           align-items: center;
           gap: 8px;
           width: 100%;
+          color: inherit;
+          text-decoration: none;
         }
 
         .xp-container {
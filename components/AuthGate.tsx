@@ -0,0 +1,27 @@
+"use client";
+
+import styles from "./AuthGate.module.css";
+
+import { useSession } from "@/components/SessionContext";
+
+export default function AuthGate({ children }: { children: React.ReactNode }) {
+  const { loading, authenticated } = useSession();
+
+  if (loading || authenticated) return <>{children}</>;
+
+  return (
+    <div className={styles.wrap} role="alert">
+      <div className={styles.card}>
+        <div className={styles.emoji}>🔒</div>
+        <div className={styles.title}>Accesso non autorizzato</div>
+        <p className={styles.text}>
+          PoopLog funziona solo dentro Telegram: apri la WebApp dal bot per
+          farti riconoscere.
+        </p>
+        <p className={styles.hint}>
+          Sviluppo locale? Imposta <code>NEXT_PUBLIC_DEV_INIT_DATA</code>.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import type { GameConfig, OptionCfg } from "@/types/gamification";
+
+import styles from "./GeoFilterDrawer.module.css";
+
+import { DEFAULT_GEO_FILTERS, GeoFilters, GeoWho } from "@/lib/geoFilters";
+
+type Props = {
+  filters: GeoFilters;
+  config: GameConfig | null;
+  /** Usernames that appear in the loaded logs. */
+  friends: string[];
+  visibleCount: number;
+  onChange: (filters: GeoFilters) => void;
+  onClose: () => void;
+};
+
+const WHO_OPTIONS: Array<{ id: GeoWho; label: string }> = [
+  { id: "all", label: "🌍 Tutti" },
+  { id: "me", label: "🙋 Solo io" },
+  { id: "friend", label: "👯 Un amico" },
+];
+
+function toggle(list: string[], key: string) {
+  return list.includes(key) ? list.filter((k) => k !== key) : [...list, key];
+}
+
+export default function GeoFilterDrawer({
+  filters,
+  config,
+  friends,
+  visibleCount,
+  onChange,
+  onClose,
+}: Props) {
+  const patch = (update: Partial<GeoFilters>) =>
+    onChange({ ...filters, ...update });
+
+  const renderChips = (
+    options: Record<string, OptionCfg> | undefined,
+    group: "consistency" | "size",
+  ) =>
+    Object.entries(options || {}).map(([key, cfg]) => (
+      <button
+        key={key}
+        aria-pressed={filters[group].includes(key)}
+        className={`${styles.chip} ${filters[group].includes(key) ? styles.on : ""}`}
+        type="button"
+        onClick={() => patch({ [group]: toggle(filters[group], key) })}
+      >
+        {cfg.emoji ? `${cfg.emoji} ` : ""}
+        {cfg.label || key}
+      </button>
+    ));
+
+  return (
+    <div aria-label="Filtri mappa" className={styles.drawer} role="dialog">
+      <div className={styles.head}>
+        <div className={styles.title}>🔎 Filtri</div>
+        <span className={styles.count}>{visibleCount} log</span>
+        <button
+          aria-label="Chiudi"
+          className={styles.close}
+          type="button"
+          onClick={onClose}
+        >
+          ✕
+        </button>
+      </div>
+
+      <div className={styles.label}>Chi</div>
+      <div className={styles.chips}>
+        {WHO_OPTIONS.map((opt) => (
+          <button
+            key={opt.id}
+            aria-pressed={filters.who === opt.id}
+            className={`${styles.chip} ${filters.who === opt.id ? styles.on : ""}`}
+            type="button"
+            onClick={() =>
+              patch({
+                who: opt.id,
+                friend:
+                  opt.id === "friend" ? filters.friend || friends[0] || "" : "",
+              })
+            }
+          >
+            {opt.label}
+          </button>
+        ))}
+      </div>
+      {filters.who === "friend" ? (
+        <select
+          aria-label="Amico"
+          className={styles.input}
+          value={filters.friend}
+          onChange={(e) => patch({ friend: e.target.value })}
+        >
+          {friends.map((name) => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+        </select>
+      ) : null}
+
+      <div className={styles.label}>Periodo</div>
+      <div className={styles.range}>
+        <input
+          aria-label="Dal"
+          className={styles.input}
+          max={filters.to || undefined}
+          type="date"
+          value={filters.from}
+          onChange={(e) => patch({ from: e.target.value })}
+        />
+        <span>→</span>
+        <input
+          aria-label="Al"
+          className={styles.input}
+          min={filters.from || undefined}
+          type="date"
+          value={filters.to}
+          onChange={(e) => patch({ to: e.target.value })}
+        />
+      </div>
+
+      <div className={styles.label}>Consistenza</div>
+      <div className={styles.chips}>
+        {renderChips(config?.consistency, "consistency")}
+      </div>
+
+      <div className={styles.label}>Quantità</div>
+      <div className={styles.chips}>{renderChips(config?.size, "size")}</div>
+
+      <button
+        className={styles.reset}
+        type="button"
+        onClick={() => onChange(DEFAULT_GEO_FILTERS)}
+      >
+        Azzera filtri
+      </button>
+    </div>
+  );
+}
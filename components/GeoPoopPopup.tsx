@@ -0,0 +1,106 @@
+import type { GeoPoopWithUser } from "@/types/api";
+import type { GameConfig } from "@/types/gamification";
+
+import { useEffect, useState } from "react";
+
+import styles from "./GeoPoopPopup.module.css";
+
+import { formatPrecision } from "@/lib/privacy";
+
+type Props = {
+  entries: GeoPoopWithUser[];
+  options?: Pick<GameConfig, "consistency" | "size" | "location"> | null;
+  /** Called after the content changes size so Leaflet can reposition. */
+  onLayout?: () => void;
+};
+
+const POOP_EMOJI = "💩";
+
+function formatDate(dateStr: string) {
+  return new Date(dateStr).toLocaleString("it-IT", {
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export default function GeoPoopPopup({ entries, options, onLayout }: Props) {
+  const [index, setIndex] = useState(0);
+  const entry = entries[index] || entries[0];
+
+  useEffect(() => {
+    onLayout?.();
+  }, [index, onLayout]);
+
+  if (!entry) return null;
+  const { poop } = entry;
+  const count = entries.length;
+  const step = (delta: number) =>
+    setIndex((prev) => (prev + delta + count) % count);
+
+  return (
+    <div className={styles.card}>
+      <div className={styles.header}>
+        <span className={styles.headerEmoji}>{POOP_EMOJI}</span>
+        {options?.location?.[poop.location]?.label ||
+          poop.location ||
+          "Posizione sconosciuta"}
+      </div>
+      <div className={styles.body}>
+        <div className={styles.user}>Utente: {entry.username || "Anonimo"}</div>
+        {poop.visibility === "private" || poop.precision_m ? (
+          <div className={styles.badges}>
+            {poop.visibility === "private" ? (
+              <span className={styles.badge}>🔒 Solo tu</span>
+            ) : null}
+            {poop.precision_m ? (
+              <span className={styles.badge}>
+                📐 {formatPrecision(poop.precision_m)}
+              </span>
+            ) : null}
+          </div>
+        ) : null}
+        <span className={styles.emoji}>{POOP_EMOJI}</span>
+        <div className={styles.details}>
+          {options?.consistency?.[poop.consistency]?.label || poop.consistency}
+          {" • "}
+          {options?.size?.[poop.size]?.label || poop.size}
+        </div>
+        <div className={styles.slider}>
+          {count > 1 ? (
+            <button
+              aria-label="Precedente"
+              className={styles.nav}
+              type="button"
+              onClick={() => step(-1)}
+            >
+              ‹
+            </button>
+          ) : null}
+          <div className={styles.slide}>
+            {poop.note ? (
+              <div className={styles.note}>“{poop.note}”</div>
+            ) : count > 1 ? (
+              <span>
+                {index + 1}/{count}
+              </span>
+            ) : null}
+          </div>
+          {count > 1 ? (
+            <button
+              aria-label="Successivo"
+              className={styles.nav}
+              type="button"
+              onClick={() => step(1)}
+            >
+              ›
+            </button>
+          ) : null}
+        </div>
+        <div className={styles.date}>{formatDate(poop.created_at)}</div>
+      </div>
+    </div>
+  );
+}
@@ -15,6 +15,10 @@ type HeaderState = {
   playerName: string;
   progress: Progress | null;
   photoUrl: string | null;
+  /** Title for the current level, from `GameConfig.levels`. */
+  levelTitle: string | null;
+  /** Streak-freeze tokens; null hides the counter. */
+  freezes: number | null;
 };
 
 type HeaderContextValue = {
@@ -26,6 +30,8 @@ const defaultState: HeaderState = {
   playerName: "Loading...",
   progress: null,
   photoUrl: null,
+  levelTitle: null,
+  freezes: null,
 };
 
 const HeaderContext = createContext<HeaderContextValue | undefined>(undefined);
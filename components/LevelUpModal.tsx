@@ -0,0 +1,51 @@
+import styles from "./LevelUpModal.module.css";
+
+import { formatLevelTitle } from "@/lib/levels";
+import { LevelDef } from "@/types/gamification";
+
+type Props = {
+  level: number | null;
+  /** Current title after the level-up. */
+  title?: LevelDef | null;
+  /** Titles reached by this level-up; those with a reward are listed. */
+  reached?: LevelDef[];
+  onClose: () => void;
+};
+
+export default function LevelUpModal({
+  level,
+  title,
+  reached = [],
+  onClose,
+}: Props) {
+  if (!level) return null;
+  const rewards = reached.filter((def) => def.reward);
+  const newTitle = reached.length ? reached[reached.length - 1] : null;
+
+  return (
+    <div aria-modal="true" className={styles.overlay} role="dialog">
+      <div className={styles.card}>
+        <div aria-hidden className={styles.rays} />
+        <div className={styles.emoji}>{title?.emoji || "⭐"}</div>
+        <div className={styles.heading}>Livello {level}!</div>
+        {newTitle ? (
+          <div className={styles.subtitle}>
+            Nuovo titolo: <strong>{formatLevelTitle(newTitle)}</strong>
+          </div>
+        ) : title ? (
+          <div className={styles.subtitle}>{formatLevelTitle(title)}</div>
+        ) : null}
+        {rewards.length ? (
+          <ul className={styles.rewards}>
+            {rewards.map((def) => (
+              <li key={def.level}>🎁 {def.reward}</li>
+            ))}
+          </ul>
+        ) : null}
+        <button className={styles.button} type="button" onClick={onClose}>
+          Evvai! 🎉
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import styles from "./NoteField.module.css";
+
+import { NotesConfig } from "@/types/gamification";
+
+const DEFAULT_NOTE_MAX = 280;
+
+type Props = {
+  config?: NotesConfig;
+  note: string;
+  tags: string[];
+  onNoteChange: (note: string) => void;
+  onTagsChange: (tags: string[]) => void;
+};
+
+export default function NoteField({
+  config,
+  note,
+  tags,
+  onNoteChange,
+  onTagsChange,
+}: Props) {
+  const noteMax = config?.max_length || DEFAULT_NOTE_MAX;
+  const quickTags = config?.quick_tags || [];
+
+  const toggleTag = (id: string) => {
+    onTagsChange(
+      tags.includes(id) ? tags.filter((t) => t !== id) : [...tags, id],
+    );
+  };
+
+  return (
+    <div className={styles.panel}>
+      {quickTags.length ? (
+        <div className={styles.tags}>
+          {quickTags.map((tag) => (
+            <button
+              key={tag.id}
+              aria-pressed={tags.includes(tag.id)}
+              className={`${styles.chip} ${tags.includes(tag.id) ? styles.on : ""}`}
+              type="button"
+              onClick={() => toggleTag(tag.id)}
+            >
+              {tag.emoji ? `${tag.emoji} ` : ""}
+              {tag.label}
+            </button>
+          ))}
+        </div>
+      ) : null}
+      <textarea
+        aria-label="Nota"
+        className={styles.input}
+        maxLength={noteMax}
+        placeholder="Com'è andata? (facoltativo)"
+        rows={2}
+        value={note}
+        onChange={(e) => onNoteChange(e.target.value)}
+      />
+      <div className={styles.count}>
+        {note.length}/{noteMax}
+      </div>
+    </div>
+  );
+}
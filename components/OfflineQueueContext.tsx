@@ -0,0 +1,181 @@
+"use client";
+
+import type { CreatePoopResponse } from "@/types/api";
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+
+import { useSession } from "@/components/SessionContext";
+import { api, isApiError } from "@/lib/api";
+import {
+  enqueuePoop,
+  listPendingPoops,
+  PendingPoop,
+  removePendingPoop,
+  updatePendingPoop,
+} from "@/lib/offlineQueue";
+
+const REPLAY_INTERVAL_MS = 30000;
+
+export type SyncedPoop = {
+  entry: PendingPoop;
+  response: CreatePoopResponse;
+};
+
+type OfflineQueueContextValue = {
+  pending: PendingPoop[];
+  /** Server responses for replayed logs not yet shown to the user. */
+  synced: SyncedPoop[];
+  /** Queued logs the server rejected for good, to tell the user about. */
+  dropped: PendingPoop[];
+  enqueue: (payload: PendingPoop["payload"]) => Promise<void>;
+  replay: () => Promise<void>;
+  clearSynced: () => void;
+  clearDropped: () => void;
+};
+
+const OfflineQueueContext = createContext<OfflineQueueContextValue | undefined>(
+  undefined,
+);
+
+// 4xx "definitivi": il server ha rifiutato il log, inutile riprovare.
+function isPermanentRejection(err: unknown) {
+  if (!isApiError(err) || err.kind !== "http" || err.status === null) {
+    return false;
+  }
+
+  return (
+    err.status >= 400 &&
+    err.status < 500 &&
+    ![401, 403, 408, 429].includes(err.status)
+  );
+}
+
+export function OfflineQueueProvider({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const { authenticated, setProgress, refresh } = useSession();
+  const [pending, setPending] = useState<PendingPoop[]>([]);
+  const [synced, setSynced] = useState<SyncedPoop[]>([]);
+  const [dropped, setDropped] = useState<PendingPoop[]>([]);
+  const replayingRef = useRef(false);
+
+  const reload = useCallback(async () => {
+    try {
+      setPending(await listPendingPoops());
+    } catch (err) {
+      console.warn("Offline queue read failed", err);
+    }
+  }, []);
+
+  const replay = useCallback(async () => {
+    if (replayingRef.current || !authenticated) return;
+    if (typeof navigator !== "undefined" && !navigator.onLine) return;
+    replayingRef.current = true;
+    const accepted: SyncedPoop[] = [];
+    const rejected: PendingPoop[] = [];
+
+    try {
+      const queue = await listPendingPoops();
+
+      for (let i = 0; i < queue.length; i += 1) {
+        const entry = queue[i];
+
+        try {
+          const response = await api.createPoop(entry.payload, { retries: 0 });
+
+          if (entry.id !== undefined) await removePendingPoop(entry.id);
+          accepted.push({ entry, response });
+          if (response?.progress) setProgress(response.progress);
+        } catch (err) {
+          if (isPermanentRejection(err)) {
+            console.warn("Queued log rejected, dropping", err);
+            if (entry.id !== undefined) await removePendingPoop(entry.id);
+            rejected.push({ ...entry, last_error: String(err) });
+            continue;
+          }
+          await updatePendingPoop({
+            ...entry,
+            attempts: entry.attempts + 1,
+            last_error: String(err),
+          });
+          break;
+        }
+      }
+    } catch (err) {
+      console.warn("Offline replay failed", err);
+    } finally {
+      replayingRef.current = false;
+      await reload();
+      if (accepted.length) setSynced((prev) => [...prev, ...accepted]);
+      if (rejected.length) setDropped((prev) => [...prev, ...rejected]);
+      // Anche i log scartati vanno riallineati: i contatori ottimistici li
+      // includevano ancora.
+      if (accepted.length || rejected.length) await refresh();
+    }
+  }, [authenticated, refresh, reload, setProgress]);
+
+  const enqueue = useCallback(
+    async (payload: PendingPoop["payload"]) => {
+      await enqueuePoop(payload);
+      await reload();
+    },
+    [reload],
+  );
+
+  const clearSynced = useCallback(() => setSynced([]), []);
+  const clearDropped = useCallback(() => setDropped([]), []);
+
+  useEffect(() => {
+    reload().then(() => replay());
+
+    window.addEventListener("online", replay);
+
+    return () => window.removeEventListener("online", replay);
+  }, [reload, replay]);
+
+  useEffect(() => {
+    if (!pending.length) return undefined;
+    const timer = window.setInterval(replay, REPLAY_INTERVAL_MS);
+
+    return () => window.clearInterval(timer);
+  }, [pending.length, replay]);
+
+  const value = useMemo(
+    () => ({
+      pending,
+      synced,
+      dropped,
+      enqueue,
+      replay,
+      clearSynced,
+      clearDropped,
+    }),
+    [pending, synced, dropped, enqueue, replay, clearSynced, clearDropped],
+  );
+
+  return (
+    <OfflineQueueContext.Provider value={value}>
+      {children}
+    </OfflineQueueContext.Provider>
+  );
+}
+
+export function useOfflineQueue() {
+  const context = useContext(OfflineQueueContext);
+
+  if (!context) {
+    throw new Error("useOfflineQueue must be used within OfflineQueueProvider");
+  }
+
+  return context;
+}
@@ -0,0 +1,33 @@
+import styles from "./OptionGrid.module.css";
+
+import { OptionCfg } from "@/types/gamification";
+
+type Props = {
+  id?: string;
+  options: Record<string, OptionCfg> | undefined;
+  selected: string;
+  onSelect: (key: string) => void;
+};
+
+export default function OptionGrid({ id, options, selected, onSelect }: Props) {
+  if (!options) {
+    return <p className={styles.loading}>Caricamento...</p>;
+  }
+
+  return (
+    <div className={styles.grid} id={id}>
+      {Object.entries(options).map(([key, cfg]) => (
+        <button
+          key={key}
+          aria-pressed={selected === key}
+          className={`${styles.card} ${selected === key ? styles.selected : ""}`}
+          type="button"
+          onClick={() => onSelect(key)}
+        >
+          <span className={styles.emoji}>{cfg.emoji || "❔"}</span>
+          <span className={styles.label}>{cfg.label || key}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import type { PoopEntry, UpdatePoopPayload } from "@/types/api";
+import type { GameConfig } from "@/types/gamification";
+
+import { useState } from "react";
+
+import styles from "./PoopEditSheet.module.css";
+
+import NoteField from "@/components/NoteField";
+import OptionGrid from "@/components/OptionGrid";
+import WhenField from "@/components/WhenField";
+import { backdateError, toLocalInput } from "@/lib/backdate";
+
+type Props = {
+  /** Log being edited; `null` creates a new one at `initialDate`. */
+  log: PoopEntry | null;
+  initialDate?: Date;
+  config: GameConfig | null;
+  saving: boolean;
+  onCancel: () => void;
+  onSave: (payload: UpdatePoopPayload) => void;
+};
+
+export default function PoopEditSheet({
+  log,
+  initialDate,
+  config,
+  saving,
+  onCancel,
+  onSave,
+}: Props) {
+  const originalWhen = log ? toLocalInput(log.created_at) : "";
+  const [consistency, setConsistency] = useState(log?.consistency || "");
+  const [size, setSize] = useState(log?.size || "");
+  const [location, setLocation] = useState(log?.location || "");
+  const [note, setNote] = useState(log?.note || "");
+  const [tags, setTags] = useState<string[]>(log?.tags || []);
+  const [when, setWhen] = useState(
+    () => originalWhen || toLocalInput(initialDate || new Date()),
+  );
+  // Un log già registrato può restare alla sua data anche se fuori finestra.
+  const validWhen =
+    Boolean(when) &&
+    (when === originalWhen || !backdateError(new Date(when), config));
+  const complete = Boolean(consistency && size && location);
+
+  const submit = () => {
+    if (!validWhen || !complete || saving) return;
+    const payload: UpdatePoopPayload = {};
+    const trimmed = note.trim();
+
+    if (consistency !== log?.consistency) payload.consistency = consistency;
+    if (size !== log?.size) payload.size = size;
+    if (location !== log?.location) payload.location = location;
+    if (trimmed !== (log?.note || "")) payload.note = trimmed || null;
+    if (tags.join(",") !== (log?.tags || []).join(",")) payload.tags = tags;
+    if (when !== originalWhen) {
+      payload.created_at = new Date(when).toISOString();
+    }
+
+    if (!Object.keys(payload).length) {
+      onCancel();
+
+      return;
+    }
+    onSave(payload);
+  };
+
+  return (
+    <div aria-modal="true" className={styles.overlay} role="dialog">
+      <div className={styles.sheet}>
+        <div className={styles.head}>
+          <div className={styles.title}>
+            {log ? "✏️ Modifica log" : "➕ Nuovo log"}
+          </div>
+          <button
+            aria-label="Chiudi"
+            className={styles.close}
+            disabled={saving}
+            type="button"
+            onClick={onCancel}
+          >
+            ✕
+          </button>
+        </div>
+
+        <h3 className={styles.label}>Consistenza</h3>
+        <OptionGrid
+          options={config?.consistency}
+          selected={consistency}
+          onSelect={setConsistency}
+        />
+
+        <h3 className={styles.label}>Quantità</h3>
+        <OptionGrid options={config?.size} selected={size} onSelect={setSize} />
+
+        <h3 className={styles.label}>Location</h3>
+        <OptionGrid
+          options={config?.location}
+          selected={location}
+          onSelect={setLocation}
+        />
+
+        {config?.notes?.enabled !== false ? (
+          <>
+            <h3 className={styles.label}>Note</h3>
+            <NoteField
+              config={config?.notes}
+              note={note}
+              tags={tags}
+              onNoteChange={setNote}
+              onTagsChange={setTags}
+            />
+          </>
+        ) : null}
+
+        <h3 className={styles.label}>Quando</h3>
+        <WhenField
+          config={config}
+          unchecked={when === originalWhen}
+          value={when}
+          onChange={setWhen}
+        />
+
+        <div className={styles.actions}>
+          <button
+            className={styles.ghost}
+            disabled={saving}
+            type="button"
+            onClick={onCancel}
+          >
+            Annulla
+          </button>
+          <button
+            className={styles.primary}
+            disabled={saving || !validWhen || !complete}
+            type="button"
+            onClick={submit}
+          >
+            {saving ? "Salvo..." : "Salva"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import type { QuestStatus } from "@/lib/quests";
+
+import styles from "./QuestList.module.css";
+
+type Props = {
+  quests: QuestStatus[];
+};
+
+export default function QuestList({ quests }: Props) {
+  if (!quests.length) return null;
+
+  return (
+    <ul className={styles.list}>
+      {quests.map(({ quest, progress, met }) => (
+        <li
+          key={`${quest.period}-${quest.id}`}
+          className={`${styles.card} ${met ? styles.done : ""}`}
+        >
+          <div className={styles.icon}>{met ? "✅" : quest.emoji || "🎯"}</div>
+          <div className={styles.body}>
+            <div className={styles.head}>
+              <span className={styles.title}>{quest.title}</span>
+              <span className={styles.period}>
+                {quest.period === "daily" ? "Oggi" : "Settimana"}
+              </span>
+            </div>
+            {quest.description ? (
+              <div className={styles.description}>{quest.description}</div>
+            ) : null}
+            <div className={styles.track}>
+              <div
+                className={styles.fill}
+                style={{ width: `${Math.min(100, progress.pct)}%` }}
+              />
+            </div>
+            <div className={styles.meta}>
+              <span>
+                {Math.min(progress.current, progress.target)} /{" "}
+                {progress.target}
+              </span>
+              <span className={styles.xp}>+{quest.xp} XP</span>
+            </div>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,352 @@
+"use client";
+
+import type {
+  PoopMutationResponse,
+  StreakState,
+  UnlockedAchievement,
+  UserInfo,
+} from "@/types/api";
+import type { GameConfig, Stats } from "@/types/gamification";
+import type { Progress } from "@/types/progress";
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+
+import { useHeaderState } from "@/components/HeaderContext";
+import { api, isAuthError, resolveApiBase } from "@/lib/api";
+import { formatLevelTitle, levelTitle } from "@/lib/levels";
+import { EMPTY_STATS, statsFromApi } from "@/lib/stats";
+import { getInitData, parseInitDataUser } from "@/lib/telegram";
+
+const STORAGE_USERNAME_KEY = "ts_username";
+const STORAGE_UID_KEY = "ts_uid";
+const BUILD_TAG = process.env.NEXT_PUBLIC_BUILD_TAG || "dev";
+
+type Identity = {
+  uid?: string;
+  username?: string;
+  name?: string;
+};
+
+type SessionState = {
+  loading: boolean;
+  /** False when there is no signed initData or the backend rejected it. */
+  authenticated: boolean;
+  identity: Identity;
+  user: UserInfo | null;
+  config: GameConfig | null;
+  progress: Progress | null;
+  stats: Stats;
+  unlockedIds: Set<string>;
+  /** ISO unlock date per achievement id, when known. */
+  unlockedAt: Record<string, string>;
+  /** Freeze tokens and frozen days; null until the backend reports them. */
+  streak: StreakState | null;
+  playerName: string;
+  photoUrl: string | null;
+  error: string | null;
+};
+
+type SessionContextValue = SessionState & {
+  setProgress: (progress: Progress | null) => void;
+  setStats: (update: Stats | ((prev: Stats) => Stats)) => void;
+  setUnlockedIds: (ids: Set<string>) => void;
+  setStreak: (streak: StreakState | null) => void;
+  /** Applies stats/progress/achievements returned by the backend. */
+  applyServerState: (data: PoopMutationResponse | undefined) => void;
+  /** Reloads stats, progress and unlocked achievements for the current user. */
+  refresh: () => Promise<void>;
+};
+
+const defaultState: SessionState = {
+  loading: true,
+  authenticated: true,
+  identity: {},
+  user: null,
+  config: null,
+  progress: null,
+  stats: EMPTY_STATS,
+  unlockedIds: new Set(),
+  unlockedAt: {},
+  streak: null,
+  playerName: "Loading...",
+  photoUrl: null,
+  error: null,
+};
+
+// L'identità arriva solo dall'initData firmato: uid/username in query
+// string non vengono più considerati.
+function resolveIdentity(): (Identity & { photoUrl?: string }) | null {
+  const tgUser = parseInitDataUser(getInitData());
+
+  if (!tgUser) return null;
+
+  const uid = String(tgUser.id);
+  const username = tgUser.username || undefined;
+
+  localStorage.setItem(STORAGE_UID_KEY, uid);
+  if (username) localStorage.setItem(STORAGE_USERNAME_KEY, username);
+  else localStorage.removeItem(STORAGE_USERNAME_KEY);
+
+  return {
+    uid,
+    username,
+    name:
+      [tgUser.first_name, tgUser.last_name].filter(Boolean).join(" ") ||
+      undefined,
+    photoUrl: tgUser.photo_url || undefined,
+  };
+}
+
+function unlockDates(
+  achievements: UnlockedAchievement[],
+  prev: Record<string, string> = {},
+) {
+  const dates: Record<string, string> = {};
+
+  achievements.forEach((a) => {
+    const when = a.unlocked_at || prev[a.id];
+
+    if (when) dates[a.id] = when;
+  });
+
+  return dates;
+}
+
+const SessionContext = createContext<SessionContextValue | undefined>(
+  undefined,
+);
+
+export function SessionProvider({ children }: { children: React.ReactNode }) {
+  const [state, setState] = useState<SessionState>(defaultState);
+  const { updateHeader } = useHeaderState();
+  const userIdRef = useRef<number | null>(null);
+
+  const patch = useCallback((payload: Partial<SessionState>) => {
+    setState((prev) => ({ ...prev, ...payload }));
+  }, []);
+
+  const setProgress = useCallback(
+    (progress: Progress | null) => patch({ progress }),
+    [patch],
+  );
+  // Gli sblocchi appena avvenuti non hanno ancora una data dal backend: la
+  // data di adesso va solo a loro, non a quelli già noti senza data.
+  const setUnlockedIds = useCallback((unlockedIds: Set<string>) => {
+    const now = new Date().toISOString();
+
+    setState((prev) => {
+      const unlockedAt: Record<string, string> = {};
+
+      unlockedIds.forEach((id) => {
+        const when =
+          prev.unlockedAt[id] || (prev.unlockedIds.has(id) ? "" : now);
+
+        if (when) unlockedAt[id] = when;
+      });
+
+      return { ...prev, unlockedIds, unlockedAt };
+    });
+  }, []);
+  const setStreak = useCallback(
+    (streak: StreakState | null) => patch({ streak }),
+    [patch],
+  );
+  const setStats = useCallback((update: Stats | ((prev: Stats) => Stats)) => {
+    setState((prev) => ({
+      ...prev,
+      stats: typeof update === "function" ? update(prev.stats) : update,
+    }));
+  }, []);
+
+  const applyServerState = useCallback(
+    (data: PoopMutationResponse | undefined) => {
+      if (!data) return;
+      setState((prev) => ({
+        ...prev,
+        progress: data.progress || prev.progress,
+        stats: statsFromApi(data.stats, prev.stats),
+        unlockedIds: data.achievements
+          ? new Set(data.achievements.map((a) => a.id))
+          : prev.unlockedIds,
+        unlockedAt: data.achievements
+          ? unlockDates(data.achievements, prev.unlockedAt)
+          : prev.unlockedAt,
+        streak: data.streak || prev.streak,
+      }));
+    },
+    [],
+  );
+
+  const refresh = useCallback(async () => {
+    const userId = userIdRef.current;
+
+    if (!userId) return;
+    try {
+      applyServerState(await api.getUserStats(userId));
+    } catch (err) {
+      if (isAuthError(err)) patch({ authenticated: false });
+      console.warn("Session refresh failed", err);
+    }
+  }, [applyServerState, patch]);
+
+  useEffect(() => {
+    const load = async () => {
+      const debugMode =
+        new URLSearchParams(window.location.search).get("debug") === "1";
+
+      if (debugMode) {
+        console.log(`Build tag: ${BUILD_TAG}`);
+        console.log(`API base: ${resolveApiBase() || "(same origin)"}`);
+      }
+
+      const identity = resolveIdentity();
+
+      if (!identity) {
+        patch({ loading: false, authenticated: false, playerName: "Ospite" });
+
+        return;
+      }
+
+      const fallbackName = identity.username
+        ? `@${identity.username}`
+        : identity.name || "Player";
+
+      patch({
+        identity: {
+          uid: identity.uid,
+          username: identity.username,
+          name: identity.name,
+        },
+        playerName: fallbackName,
+        photoUrl: identity.photoUrl || null,
+      });
+
+      try {
+        patch({ config: await api.getGamingConfig() });
+      } catch (err) {
+        console.warn("Config load failed", err);
+        patch({ error: "Config non disponibile" });
+      }
+
+      try {
+        const data = await api.getUserInfo(identity);
+        const unlockedList = [...(data.achievements || [])];
+        const unlocked = new Set<string>(unlockedList.map((a) => a.id));
+        let progress = data.progress || null;
+        let stats = statsFromApi(data.stats);
+        let streak: StreakState | null = null;
+
+        if (data.user?.id) {
+          userIdRef.current = data.user.id;
+          try {
+            const statsData = await api.getUserStats(data.user.id);
+
+            if (statsData.progress) progress = statsData.progress;
+            stats = statsFromApi(statsData.stats, stats);
+            streak = statsData.streak || null;
+            statsData.achievements?.forEach((a) => {
+              unlocked.add(a.id);
+              unlockedList.push(a);
+            });
+          } catch (statsErr) {
+            console.warn("Stats fallback", statsErr);
+          }
+        }
+
+        setState((prev) => ({
+          ...prev,
+          user: data.user || null,
+          config: prev.config || data.game_config || null,
+          progress,
+          stats,
+          unlockedIds: unlocked,
+          unlockedAt: unlockDates(unlockedList),
+          streak,
+          playerName: data.user
+            ? data.user.username
+              ? `@${data.user.username}`
+              : data.user.name || fallbackName
+            : fallbackName,
+          photoUrl: prev.photoUrl || data.user?.photo_url || null,
+        }));
+      } catch (err) {
+        console.warn("Errore userinfo", err);
+        if (isAuthError(err)) {
+          patch({ authenticated: false, playerName: "Ospite" });
+
+          return;
+        }
+        patch({
+          error: "Impossibile caricare i dati utente",
+          playerName: "Offline",
+        });
+      } finally {
+        patch({ loading: false });
+      }
+    };
+
+    load();
+  }, [patch]);
+
+  useEffect(() => {
+    const title = levelTitle(state.config, state.progress?.level);
+
+    updateHeader({
+      playerName: state.playerName,
+      progress: state.progress,
+      photoUrl: state.photoUrl,
+      levelTitle: title ? formatLevelTitle(title) : null,
+      freezes: state.streak ? state.streak.freezes : null,
+    });
+  }, [
+    state.playerName,
+    state.progress,
+    state.photoUrl,
+    state.config,
+    state.streak,
+    updateHeader,
+  ]);
+
+  const value = useMemo(
+    () => ({
+      ...state,
+      setProgress,
+      setStats,
+      setUnlockedIds,
+      setStreak,
+      applyServerState,
+      refresh,
+    }),
+    [
+      state,
+      setProgress,
+      setStats,
+      setUnlockedIds,
+      setStreak,
+      applyServerState,
+      refresh,
+    ],
+  );
+
+  return (
+    <SessionContext.Provider value={value}>{children}</SessionContext.Provider>
+  );
+}
+
+export function useSession() {
+  const context = useContext(SessionContext);
+
+  if (!context) {
+    throw new Error("useSession must be used within SessionProvider");
+  }
+
+  return context;
+}
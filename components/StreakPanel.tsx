@@ -0,0 +1,95 @@
+import type { StreakState } from "@/types/api";
+import type { Stats } from "@/types/gamification";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+
+import styles from "./StreakPanel.module.css";
+
+import { dayKey } from "@/lib/stats";
+import { streakAtRisk, streakRange } from "@/lib/streak";
+
+type Props = {
+  stats: Stats;
+  streak: StreakState | null;
+};
+
+function pooplogHref(day: string, from?: string) {
+  const params = new URLSearchParams({ day });
+
+  if (from && from !== day) params.set("from", from);
+
+  return `/pooplog?${params.toString()}`;
+}
+
+export default function StreakPanel({ stats, streak }: Props) {
+  const [now, setNow] = useState(() => new Date());
+
+  // Aggiorna l'avviso "a rischio" man mano che si avvicina la mezzanotte.
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(new Date()), 60000);
+
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const today = dayKey(now);
+  const range = streakRange(stats, now);
+  const hoursLeft = streakAtRisk(stats, streak, now);
+  const covered = Boolean(streak?.auto_freeze && streak.freezes > 0);
+  const record = stats.today > 0 && stats.today >= stats.combo;
+  const flame =
+    stats.streak >= 7 ? styles.blazing : stats.streak > 0 ? "" : styles.cold;
+
+  return (
+    <div className={styles.panel}>
+      <Link
+        className={`${styles.card} ${styles.streak} ${flame}`}
+        href={range ? pooplogHref(range.to, range.from) : pooplogHref(today)}
+      >
+        <span className={styles.icon}>{stats.streak > 0 ? "🔥" : "🪵"}</span>
+        <span className={styles.body}>
+          <span className={styles.value}>{stats.streak}</span>
+          <span className={styles.label}>
+            {stats.streak === 1 ? "giorno di fila" : "giorni di fila"}
+          </span>
+        </span>
+      </Link>
+      <Link
+        className={`${styles.card} ${styles.combo} ${record ? styles.record : ""}`}
+        href={pooplogHref(record ? today : stats.comboDay || today)}
+      >
+        <span className={styles.icon}>{record ? "🏆" : "💥"}</span>
+        <span className={styles.body}>
+          <span className={styles.value}>
+            {stats.today}
+            <span className={styles.best}> / {stats.combo}</span>
+          </span>
+          <span className={styles.label}>
+            {record ? "Record di combo!" : "Combo oggi / record"}
+          </span>
+        </span>
+      </Link>
+      {hoursLeft !== null ? (
+        <Link
+          className={`${styles.card} ${styles.risk}`}
+          href={pooplogHref(today)}
+          role="alert"
+        >
+          <span className={styles.icon}>⏰</span>
+          <span className={styles.body}>
+            <span className={styles.label}>
+              Streak a rischio:{" "}
+              {hoursLeft <= 1 ? "meno di un'ora" : `meno di ${hoursLeft} ore`}{" "}
+              per il log di oggi
+            </span>
+            {covered ? (
+              <span className={styles.hint}>
+                🧊 Se salti, un gettone lo congela in automatico
+              </span>
+            ) : null}
+          </span>
+        </Link>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import type { GameConfig } from "@/types/gamification";
+
+import styles from "./WhenField.module.css";
+
+import {
+  backdateError,
+  earliestBackdate,
+  lateXpMultiplier,
+  toLocalInput,
+} from "@/lib/backdate";
+
+type Props = {
+  config: GameConfig | null;
+  /** Local datetime string; empty means "now". */
+  value: string;
+  onChange: (value: string) => void;
+  /** Shows the "Adesso" shortcut (the WC screen). */
+  allowNow?: boolean;
+  /** Skip guardrail checks, e.g. for an already-saved timestamp. */
+  unchecked?: boolean;
+};
+
+export default function WhenField({
+  config,
+  value,
+  onChange,
+  allowNow = false,
+  unchecked = false,
+}: Props) {
+  const now = new Date();
+  const checked = Boolean(value) && !unchecked;
+  const error = checked ? backdateError(new Date(value), config, now) : null;
+  const multiplier = checked
+    ? lateXpMultiplier(new Date(value).toISOString(), config, now)
+    : 1;
+
+  return (
+    <div className={styles.field}>
+      <div className={styles.row}>
+        {allowNow ? (
+          <button
+            aria-pressed={!value}
+            className={`${styles.now} ${!value ? styles.on : ""}`}
+            type="button"
+            onClick={() => onChange("")}
+          >
+            🕒 Adesso
+          </button>
+        ) : null}
+        <input
+          aria-label="Data e ora"
+          className={styles.input}
+          max={toLocalInput(now)}
+          min={toLocalInput(earliestBackdate(config, now))}
+          type="datetime-local"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      </div>
+      {error ? (
+        <div className={styles.error}>{error}</div>
+      ) : multiplier < 1 ? (
+        <div className={styles.hint}>
+          Log in ritardo: XP ×{multiplier.toLocaleString("it-IT")}
+        </div>
+      ) : null}
+    </div>
+  );
+}
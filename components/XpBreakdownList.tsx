@@ -0,0 +1,77 @@
+import styles from "./XpBreakdownList.module.css";
+
+import { XpBreakdown } from "@/types/gamification";
+
+type Props = {
+  breakdown: XpBreakdown;
+  /** Hides the total row, e.g. when the caller already shows it. */
+  hideTotal?: boolean;
+};
+
+function formatFactor(factor: number) {
+  return `×${factor.toLocaleString("it-IT", { maximumFractionDigits: 2 })}`;
+}
+
+function signed(xp: number) {
+  return `${xp >= 0 ? "+" : ""}${xp}`;
+}
+
+export default function XpBreakdownList({
+  breakdown,
+  hideTotal = false,
+}: Props) {
+  return (
+    <ul className={styles.list}>
+      {breakdown.lines.map((line) => (
+        <li
+          key={line.id}
+          className={`${styles.row} ${line.tentative ? styles.tentative : ""}`}
+          title={line.tentative ? "Solo se confermato dal server" : undefined}
+        >
+          <span className={styles.label}>
+            {line.emoji ? `${line.emoji} ` : ""}
+            {line.label}
+          </span>
+          <span className={styles.value}>
+            {signed(line.xp)}
+            {line.tentative ? "?" : ""}
+          </span>
+        </li>
+      ))}
+      {breakdown.multipliers.map((m) => (
+        <li key={m.id} className={styles.row}>
+          <span className={styles.label}>{m.label}</span>
+          <span className={styles.value}>{formatFactor(m.factor)}</span>
+        </li>
+      ))}
+      {breakdown.bonuses?.map((line) => (
+        <li
+          key={line.id}
+          className={`${styles.row} ${styles.bonus} ${line.tentative ? styles.tentative : ""}`}
+          title={line.tentative ? "Solo se confermato dal server" : undefined}
+        >
+          <span className={styles.label}>
+            {line.emoji ? `${line.emoji} ` : ""}
+            {line.label}
+          </span>
+          <span className={styles.value}>
+            {signed(line.xp)}
+            {line.tentative ? "?" : ""}
+          </span>
+        </li>
+      ))}
+      {breakdown.adjustment ? (
+        <li className={styles.row}>
+          <span className={styles.label}>Correzione server</span>
+          <span className={styles.value}>{signed(breakdown.adjustment)}</span>
+        </li>
+      ) : null}
+      {hideTotal ? null : (
+        <li className={`${styles.row} ${styles.total}`}>
+          <span className={styles.label}>Totale</span>
+          <span className={styles.value}>{breakdown.total} XP</span>
+        </li>
+      )}
+    </ul>
+  );
+}
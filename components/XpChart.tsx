@@ -0,0 +1,67 @@
+import type { LedgerRow } from "@/lib/xpLedger";
+
+import styles from "./XpChart.module.css";
+
+type Props = {
+  rows: LedgerRow[];
+};
+
+const WIDTH = 320;
+const HEIGHT = 140;
+const PAD = 12;
+
+export default function XpChart({ rows }: Props) {
+  if (rows.length < 2) {
+    return <div className={styles.empty}>Servono almeno due movimenti.</div>;
+  }
+
+  const times = rows.map((r) => new Date(r.entry.created_at).getTime());
+  const minT = Math.min(...times);
+  const spanT = Math.max(1, Math.max(...times) - minT);
+  const totals = rows.map((r) => r.total);
+  const minY = Math.min(0, ...totals);
+  const spanY = Math.max(1, Math.max(...totals) - minY);
+  const x = (t: number) => PAD + ((t - minT) / spanT) * (WIDTH - PAD * 2);
+  const y = (v: number) =>
+    HEIGHT - PAD - ((v - minY) / spanY) * (HEIGHT - PAD * 2);
+  // Gradini: il totale resta fermo fino al movimento successivo.
+  const path = rows
+    .map((row, i) => {
+      const px = x(times[i]).toFixed(1);
+      const py = y(row.total).toFixed(1);
+
+      return i === 0 ? `M${px},${py}` : `H${px}V${py}`;
+    })
+    .join("");
+
+  return (
+    <svg
+      aria-label="XP nel tempo"
+      className={styles.chart}
+      role="img"
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+    >
+      <path className={styles.line} d={path} />
+      {rows.map((row, i) =>
+        row.levelUp ? (
+          <g key={row.entry.id}>
+            <circle
+              className={styles.level}
+              cx={x(times[i])}
+              cy={y(row.total)}
+              r={4}
+            />
+            <text
+              className={styles.levelLabel}
+              textAnchor="middle"
+              x={x(times[i])}
+              y={y(row.total) - 8}
+            >
+              L{row.levelUp}
+            </text>
+          </g>
+        ) : null,
+      )}
+    </svg>
+  );
+}
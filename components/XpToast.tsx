@@ -1,5 +1,6 @@
 import styles from "./XpToast.module.css";
 
+import XpBreakdownList from "@/components/XpBreakdownList";
 import { XpToastPayload } from "@/types/gamification";
 
 type Props = {
@@ -14,11 +15,19 @@ export default function XpToast({ xp }: Props) {
     <div aria-live="polite" className={styles.toast}>
       <div className={styles.card}>
         <div className={styles.top}>
-          <span className={styles.badge}>+{xp.delta} XP</span>
+          <span className={styles.badge}>
+            {xp.delta >= 0 ? "+" : ""}
+            {xp.delta} XP
+          </span>
           {xp.level ? (
             <span className={styles.level}>LVL {xp.level}</span>
           ) : null}
         </div>
+        {xp.breakdown?.lines.length ? (
+          <div className={styles.breakdown}>
+            <XpBreakdownList hideTotal breakdown={xp.breakdown} />
+          </div>
+        ) : null}
         <div className={styles.track}>
           <div className={styles.fill} style={{ width: `${percent}%` }} />
         </div>
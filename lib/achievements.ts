@@ -0,0 +1,612 @@
+import type { AchievementRarityResponse, PoopEntry } from "@/types/api";
+import type {
+  AchievementCard,
+  AchievementDef,
+  ConditionProgress,
+  GameConfig,
+  GoalProgress,
+  Stats,
+} from "@/types/gamification";
+
+import { api, RequestOptions } from "@/lib/api";
+import { dayKey, EMPTY_STATS } from "@/lib/stats";
+
+const MAX_HISTORY_YEARS = 10;
+/** A hidden achievement shows its hint from this progress on. */
+const HINT_FROM_PCT = 60;
+const WEEKDAY_NAMES = ["dom", "lun", "mar", "mer", "gio", "ven", "sab"];
+
+export const DEFAULT_ACHIEVEMENTS: AchievementDef[] = [
+  { id: "first", title: "Prima Cacca", emoji: "💩" },
+  { id: "streak3", title: "On Fire (3+ giorni)", emoji: "🔥" },
+  { id: "office", title: "Office Master", emoji: "👔" },
+  { id: "legend", title: "Poop Legend", emoji: "🏆" },
+];
+
+/**
+ * A single goal. Filters narrow the logs it counts, which requires the
+ * log history instead of the aggregated stats.
+ */
+export type ConditionLeaf = {
+  metric: string;
+  target: number;
+  /** Local hours `[from, to)`; wraps past midnight when from > to. */
+  hours?: [number, number];
+  /** 0 = domenica … 6 = sabato. */
+  weekdays?: number[];
+  /** Inclusive `YYYY-MM-DD` window. */
+  from?: string;
+  to?: string;
+  label?: string;
+};
+
+/**
+ * `{ all: [...] }` / `{ any: [...] }` groups, a `ConditionLeaf`, or the
+ * legacy shorthand `{ total_poops: 10, type_liquid: 3 }` (all must hold).
+ */
+export type AchievementCondition =
+  | { all: AchievementCondition[] }
+  | { any: AchievementCondition[] }
+  | ConditionLeaf
+  | Record<string, unknown>;
+
+/** The log fields conditions look at; optimistic logs have no id yet. */
+export type ConditionLog = Pick<
+  PoopEntry,
+  "consistency" | "size" | "location" | "created_at"
+>;
+
+export type EvalContext = {
+  config: GameConfig;
+  stats?: Stats | null;
+  /** The user's logs; without them log-based goals stay unresolved. */
+  logs?: ConditionLog[] | null;
+  /** `AchievementDef.year`: only logs of that year count. */
+  year?: number;
+  /** Metrics the caller already measured, e.g. quest-only ones. */
+  extra?: Record<string, number>;
+};
+
+export type Evaluation = {
+  met: boolean;
+  pct: number;
+  leaves: ConditionProgress[];
+  /** The top-level group is an OR: one goal is enough. */
+  any?: boolean;
+};
+
+function isLeaf(node: AchievementCondition): node is ConditionLeaf {
+  return (
+    typeof (node as ConditionLeaf).metric === "string" &&
+    typeof (node as ConditionLeaf).target === "number"
+  );
+}
+
+function childrenOf(node: AchievementCondition, key: "all" | "any") {
+  const value = (node as Record<string, unknown>)[key];
+
+  return Array.isArray(value) ? (value as AchievementCondition[]) : null;
+}
+
+function legacyLeaves(node: Record<string, unknown>): ConditionLeaf[] {
+  return Object.keys(node)
+    .filter((key) => typeof node[key] === "number" && (node[key] as number) > 0)
+    .map((key) => ({ metric: key, target: node[key] as number }));
+}
+
+function hasFilters(leaf: ConditionLeaf) {
+  return Boolean(leaf.hours || leaf.weekdays || leaf.from || leaf.to);
+}
+
+function inHours(hour: number, [from, to]: [number, number]) {
+  return from <= to ? hour >= from && hour < to : hour >= from || hour < to;
+}
+
+function filterLogs(logs: ConditionLog[], leaf: ConditionLeaf, year?: number) {
+  return logs.filter((log) => {
+    const dt = new Date(log.created_at);
+
+    if (Number.isNaN(dt.getTime())) return false;
+    if (year && dt.getFullYear() !== year) return false;
+    if (leaf.hours && !inHours(dt.getHours(), leaf.hours)) return false;
+    if (leaf.weekdays && !leaf.weekdays.includes(dt.getDay())) return false;
+    const key = dayKey(dt);
+
+    if (leaf.from && key < leaf.from) return false;
+    if (leaf.to && key > leaf.to) return false;
+
+    return true;
+  });
+}
+
+function longestStreak(days: string[]) {
+  const sorted = Array.from(new Set(days)).sort();
+  let best = 0;
+  let run = 0;
+  let prev: Date | null = null;
+
+  sorted.forEach((key) => {
+    const day = new Date(`${key}T12:00:00`);
+    const gap = prev ? Math.round((day.getTime() - prev.getTime()) / 864e5) : 0;
+
+    run = gap === 1 ? run + 1 : 1;
+    best = Math.max(best, run);
+    prev = day;
+  });
+
+  return best;
+}
+
+function metricFromLogs(metric: string, logs: ConditionLog[]) {
+  const count = (pred: (log: ConditionLog) => boolean) =>
+    logs.filter(pred).length;
+
+  if (metric === "total_poops" || metric === "poops") return logs.length;
+  if (metric.startsWith("weekend")) {
+    return count((log) => [0, 6].includes(new Date(log.created_at).getDay()));
+  }
+  if (metric.startsWith("unique_locations")) {
+    return new Set(logs.map((log) => log.location)).size;
+  }
+  if (metric === "poops_in_one_day") {
+    const perDay: Record<string, number> = {};
+
+    logs.forEach((log) => {
+      const key = dayKey(new Date(log.created_at));
+
+      perDay[key] = (perDay[key] || 0) + 1;
+    });
+
+    return Object.keys(perDay).reduce((m, k) => Math.max(m, perDay[k]), 0);
+  }
+  if (metric === "daily_streak") {
+    return longestStreak(logs.map((log) => dayKey(new Date(log.created_at))));
+  }
+  if (metric.startsWith("type_")) {
+    return count((log) => log.consistency === metric.slice(5));
+  }
+  if (metric.startsWith("size_")) {
+    return count((log) => log.size === metric.slice(5));
+  }
+  if (metric.startsWith("loc_")) {
+    return count((log) => log.location === metric.slice(4));
+  }
+
+  return undefined;
+}
+
+function metricFromStats(metric: string, stats: Stats) {
+  if (metric === "total_poops" || metric === "poops") return stats.total ?? 0;
+  if (metric === "daily_streak") return stats.streak ?? 0;
+  if (metric === "poops_in_one_day") return stats.combo ?? 0;
+  if (metric.startsWith("unique_locations")) {
+    const counts = stats.locationCounts || {};
+
+    return Object.keys(counts).filter((k) => counts[k] > 0).length;
+  }
+  if (metric.startsWith("type_")) {
+    return stats.consistencyCounts?.[metric.slice(5)] ?? 0;
+  }
+  if (metric.startsWith("size_")) {
+    return stats.sizeCounts?.[metric.slice(5)] ?? 0;
+  }
+  if (metric.startsWith("loc_")) {
+    return stats.locationCounts?.[metric.slice(4)] ?? 0;
+  }
+
+  return undefined;
+}
+
+/** Human label for a goal, e.g. "Log nel weekend (22–6)". */
+export function describeCondition(leaf: ConditionLeaf, config: GameConfig) {
+  if (leaf.label) return leaf.label;
+  const { metric } = leaf;
+  let label = `Obiettivo (${leaf.target})`;
+
+  if (metric === "total_poops" || metric === "poops") label = "Log totali";
+  else if (metric === "daily_streak") label = "Streak di giorni";
+  else if (metric === "poops_in_one_day") label = "Log nello stesso giorno";
+  else if (metric.startsWith("weekend")) label = "Log nel weekend";
+  else if (metric.startsWith("unique_locations")) label = "Location uniche";
+  else if (metric === "new_locations") label = "Location mai usate prima";
+  else if (metric.startsWith("type_")) {
+    label = config.consistency?.[metric.slice(5)]?.label || metric.slice(5);
+  } else if (metric.startsWith("size_")) {
+    label = config.size?.[metric.slice(5)]?.label || metric.slice(5);
+  } else if (metric.startsWith("loc_")) {
+    label = config.location?.[metric.slice(4)]?.label || metric.slice(4);
+  }
+
+  if (leaf.weekdays?.length) {
+    label += ` (${leaf.weekdays.map((d) => WEEKDAY_NAMES[d] || d).join(", ")})`;
+  }
+  if (leaf.hours) label += ` (${leaf.hours[0]}–${leaf.hours[1]})`;
+  if (leaf.from || leaf.to) {
+    label += ` ${leaf.from ? `dal ${leaf.from}` : ""}${leaf.from && leaf.to ? " " : ""}${leaf.to ? `al ${leaf.to}` : ""}`;
+  }
+
+  return label;
+}
+
+function evaluateLeaf(
+  leaf: ConditionLeaf,
+  ctx: EvalContext,
+): Evaluation | null {
+  let current: number | undefined = hasFilters(leaf)
+    ? undefined
+    : ctx.extra?.[leaf.metric];
+
+  // Le statistiche aggregate bastano solo per obiettivi senza filtri.
+  if (current === undefined && !hasFilters(leaf) && !ctx.year && ctx.stats) {
+    current = metricFromStats(leaf.metric, ctx.stats);
+  }
+  if (current === undefined && ctx.logs) {
+    current = metricFromLogs(leaf.metric, filterLogs(ctx.logs, leaf, ctx.year));
+  }
+  if (current === undefined || !(leaf.target > 0)) return null;
+  const pct = Math.max(0, Math.min(100, (current / leaf.target) * 100));
+  const met = current >= leaf.target;
+
+  return {
+    met,
+    pct,
+    leaves: [
+      {
+        label: describeCondition(leaf, ctx.config),
+        current,
+        target: leaf.target,
+        pct,
+        met,
+      },
+    ],
+  };
+}
+
+function evaluateGroup(
+  children: AchievementCondition[],
+  mode: "all" | "any",
+  ctx: EvalContext,
+): Evaluation | null {
+  const results = children.map((child) => evaluateCondition(child, ctx));
+  const resolved = results.filter((r): r is Evaluation => r !== null);
+
+  if (!resolved.length) return null;
+  const leaves = resolved.reduce<ConditionProgress[]>(
+    (acc, r) => acc.concat(r.leaves),
+    [],
+  );
+
+  if (mode === "any") {
+    return {
+      met: resolved.some((r) => r.met),
+      pct: Math.max(...resolved.map((r) => r.pct)),
+      leaves,
+      any: true,
+    };
+  }
+
+  return {
+    met: resolved.length === results.length && resolved.every((r) => r.met),
+    pct: resolved.reduce((sum, r) => sum + r.pct, 0) / results.length,
+    leaves,
+  };
+}
+
+/**
+ * Readable version of a condition tree, e.g.
+ * "Log totali ≥ 10 e (Log nel weekend ≥ 3 oppure Location uniche ≥ 5)".
+ */
+export function conditionText(
+  node: AchievementCondition,
+  config: GameConfig,
+  nested = false,
+): string {
+  if (!node || typeof node !== "object") return "";
+  const all = childrenOf(node, "all");
+  const any = childrenOf(node, "any");
+  const children = all || any || (isLeaf(node) ? null : legacyLeaves(node));
+
+  if (!children) {
+    const leaf = node as ConditionLeaf;
+
+    return `${describeCondition(leaf, config)} ≥ ${leaf.target}`;
+  }
+  const text = children
+    .map((child) => conditionText(child, config, true))
+    .filter(Boolean)
+    .join(any ? " oppure " : " e ");
+
+  return nested && children.length > 1 ? `(${text})` : text;
+}
+
+/** Evaluates a condition tree; null when nothing in it can be measured. */
+export function evaluateCondition(
+  node: AchievementCondition,
+  ctx: EvalContext,
+): Evaluation | null {
+  if (!node || typeof node !== "object") return null;
+  const all = childrenOf(node, "all");
+  const any = childrenOf(node, "any");
+
+  if (all) return evaluateGroup(all, "all", ctx);
+  if (any) return evaluateGroup(any, "any", ctx);
+  if (isLeaf(node)) return evaluateLeaf(node, ctx);
+
+  return evaluateGroup(legacyLeaves(node), "all", ctx);
+}
+
+function needsLogs(node: AchievementCondition, year?: number): boolean {
+  if (!node || typeof node !== "object") return false;
+  const children = childrenOf(node, "all") || childrenOf(node, "any");
+
+  if (children) return children.some((child) => needsLogs(child, year));
+  const leaves = isLeaf(node) ? [node] : legacyLeaves(node);
+
+  return leaves.some(
+    (leaf) =>
+      Boolean(year) ||
+      hasFilters(leaf) ||
+      metricFromStats(leaf.metric, EMPTY_STATS) === undefined,
+  );
+}
+
+export function achievementDefs(config?: GameConfig | null) {
+  return config?.achievements?.length
+    ? config.achievements
+    : DEFAULT_ACHIEVEMENTS;
+}
+
+/** True when some achievement can only be measured on the log history. */
+export function needsLogHistory(config?: GameConfig | null) {
+  return achievementDefs(config).some(
+    (def) => def.condition && needsLogs(def.condition, def.year),
+  );
+}
+
+/**
+ * Loads the user's logs year by year (newest first) from the per-user
+ * monthly endpoint. The current year is always skipped over, even when
+ * empty; the walk stops at the first empty past year older than `minYear`.
+ */
+export async function loadLogHistory(
+  userId: number,
+  minYear?: number,
+  opts?: RequestOptions,
+) {
+  const logs: PoopEntry[] = [];
+  const now = new Date();
+  const current = now.getFullYear();
+
+  for (let year = current; year > current - MAX_HISTORY_YEARS; year -= 1) {
+    const months = year === current ? now.getMonth() + 1 : 12;
+    const pages = await Promise.all(
+      Array.from({ length: months }, (_, i) =>
+        api.getMonthlyPoops(userId, year, i + 1, opts),
+      ),
+    );
+    const yearLogs = pages.reduce<PoopEntry[]>(
+      (acc, page) => acc.concat(page?.poops || []),
+      [],
+    );
+
+    logs.push(...yearLogs);
+    if (
+      !yearLogs.length &&
+      year < current &&
+      (minYear === undefined || year <= minYear)
+    ) {
+      break;
+    }
+  }
+
+  return logs;
+}
+
+/** Oldest `AchievementDef.year` in the config, if any. */
+export function oldestAchievementYear(config?: GameConfig | null) {
+  const years = achievementDefs(config)
+    .map((def) => def.year)
+    .filter((y): y is number => typeof y === "number");
+
+  return years.length ? Math.min(...years) : undefined;
+}
+
+/**
+ * Progress bar data for an evaluation: the goal itself when there is only
+ * one, otherwise the number of goals met with one part per goal.
+ */
+export function progressSummary(
+  result: Evaluation,
+  complete = false,
+): GoalProgress {
+  const parts = complete
+    ? result.leaves.map((leaf) => ({
+        ...leaf,
+        current: Math.max(leaf.current, leaf.target),
+        pct: 100,
+        met: true,
+      }))
+    : result.leaves;
+  const metCount = parts.filter((p) => p.met).length;
+  const pct = complete ? 100 : result.pct;
+
+  if (parts.length === 1) {
+    const [only] = parts;
+
+    return {
+      current: only.current,
+      target: only.target,
+      pct,
+      label: only.label,
+    };
+  }
+  if (result.any) {
+    return {
+      current: Math.min(metCount, 1),
+      target: 1,
+      pct,
+      label: "Almeno un obiettivo",
+      parts,
+    };
+  }
+
+  return {
+    current: metCount,
+    target: parts.length,
+    pct,
+    label: `${metCount}/${parts.length} obiettivi`,
+    parts,
+  };
+}
+
+/** Cards for every achievement; locked hidden ones are masked. */
+export function buildAchievementCards(
+  config: GameConfig,
+  unlocked: Set<string>,
+  stats?: Stats | null,
+  logs?: PoopEntry[] | null,
+): AchievementCard[] {
+  const currentYear = new Date().getFullYear();
+
+  return achievementDefs(config).map((ach) => {
+    const isUnlocked = unlocked.has(ach.id);
+    const isHiddenLocked = Boolean(ach.hidden) && !isUnlocked;
+    const isExpired =
+      !isUnlocked && Boolean(ach.year && ach.year < currentYear);
+    const result = ach.condition
+      ? evaluateCondition(ach.condition, {
+          config,
+          stats,
+          logs,
+          year: ach.year,
+        })
+      : null;
+    const progress =
+      result && !isHiddenLocked
+        ? progressSummary(result, isUnlocked)
+        : undefined;
+
+    return {
+      id: ach.id,
+      title: isHiddenLocked ? "??? Segreto" : ach.title || ach.label || ach.id,
+      emoji: isHiddenLocked ? "❔" : ach.emoji || "🏆",
+      description: isHiddenLocked
+        ? "Obiettivo nascosto. Sbloccalo per scoprire di cosa si tratta."
+        : ach.description,
+      unlocked: isUnlocked,
+      year: ach.year,
+      expired: isExpired,
+      hidden: ach.hidden,
+      condition: isHiddenLocked ? undefined : ach.condition,
+      hint:
+        isHiddenLocked && !isExpired && result && result.pct >= HINT_FROM_PCT
+          ? ach.hint || "Ci sei quasi: continua così!"
+          : undefined,
+      progress,
+    };
+  });
+}
+
+export const EVERGREEN = "evergreen";
+
+export type AchievementSeason = {
+  /** `EVERGREEN` or the year as a string. */
+  key: string;
+  label: string;
+  total: number;
+  unlocked: number;
+};
+
+export function seasonKey(card: AchievementCard) {
+  return card.year ? String(card.year) : EVERGREEN;
+}
+
+/** Seasons with completion counts: newest year first, evergreen last. */
+export function achievementSeasons(cards: AchievementCard[]) {
+  const byKey: Record<string, AchievementSeason> = {};
+
+  cards.forEach((card) => {
+    const key = seasonKey(card);
+    const season = byKey[key] || {
+      key,
+      label: card.year ? `Stagione ${card.year}` : "Evergreen",
+      total: 0,
+      unlocked: 0,
+    };
+
+    season.total += 1;
+    if (card.unlocked) season.unlocked += 1;
+    byKey[key] = season;
+  });
+
+  return Object.keys(byKey)
+    .sort((a, b) => {
+      if (a === EVERGREEN) return 1;
+      if (b === EVERGREEN) return -1;
+
+      return Number(b) - Number(a);
+    })
+    .map((key) => byKey[key]);
+}
+
+/** Percentage of players per achievement id. */
+export function rarityPercentages(data?: AchievementRarityResponse | null) {
+  const pcts: Record<string, number> = {};
+
+  if (!data?.players) return pcts;
+  data.achievements.forEach((a) => {
+    pcts[a.id] = Math.min(100, (a.unlocked / data.players) * 100);
+  });
+
+  return pcts;
+}
+
+export function rarityLabel(pct: number) {
+  if (pct < 5) return "💎 Leggendario";
+  if (pct < 20) return "🟣 Raro";
+  if (pct < 50) return "🔵 Non comune";
+
+  return "⚪ Comune";
+}
+
+export type AchievementSort = "default" | "rarity" | "progress" | "unlocked";
+
+function unlockTime(card: AchievementCard) {
+  const ms = card.unlocked_at ? new Date(card.unlocked_at).getTime() : NaN;
+
+  return Number.isNaN(ms) ? 0 : ms;
+}
+
+function cardPct(card: AchievementCard) {
+  return card.unlocked ? 100 : (card.progress?.pct ?? 0);
+}
+
+/**
+ * Rarest first, most advanced first or most recently unlocked first;
+ * cards without the data go last, in config order.
+ */
+export function sortAchievements(
+  cards: AchievementCard[],
+  sort: AchievementSort,
+) {
+  if (sort === "default") return cards;
+  const keyed = cards.map((card, idx) => ({ card, idx }));
+
+  keyed.sort((a, b) => {
+    let diff = 0;
+
+    if (sort === "rarity") {
+      diff = (a.card.rarity_pct ?? 101) - (b.card.rarity_pct ?? 101);
+    } else if (sort === "progress") {
+      diff = cardPct(b.card) - cardPct(a.card);
+    } else {
+      diff =
+        Number(b.card.unlocked) - Number(a.card.unlocked) ||
+        unlockTime(b.card) - unlockTime(a.card);
+    }
+
+    return diff || a.idx - b.idx;
+  });
+
+  return keyed.map(({ card }) => card);
+}
@@ -0,0 +1,399 @@
+import type {
+  AchievementRarityResponse,
+  BucketResponse,
+  CreatePoopPayload,
+  CreatePoopResponse,
+  DeletePoopResponse,
+  GeoCluster,
+  MonthlyPoopsResponse,
+  PoopMutationResponse,
+  QuestHistoryResponse,
+  UpdatePoopPayload,
+  UpdatePoopResponse,
+  UserInfoResponse,
+  UserStatsResponse,
+  XpLedgerResponse,
+} from "@/types/api";
+import type { GameConfig } from "@/types/gamification";
+
+import { getInitData } from "@/lib/telegram";
+
+const apiBaseEnv = (process.env.NEXT_PUBLIC_API_BASE || "").replace(/\/$/, "");
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const DEFAULT_RETRIES = 2;
+const RETRY_DELAY_MS = 600;
+
+export const AUTH_HEADER = "X-Telegram-Init-Data";
+
+export type ApiErrorKind = "http" | "network" | "timeout" | "aborted" | "parse";
+
+export class ApiError extends Error {
+  kind: ApiErrorKind;
+  status: number | null;
+  body: string;
+  path: string;
+
+  constructor(
+    kind: ApiErrorKind,
+    path: string,
+    message: string,
+    status: number | null = null,
+    body = "",
+  ) {
+    super(message);
+    Object.setPrototypeOf(this, ApiError.prototype);
+    this.name = "ApiError";
+    this.kind = kind;
+    this.path = path;
+    this.status = status;
+    this.body = body;
+  }
+
+  get retryable() {
+    if (this.kind === "network" || this.kind === "timeout") return true;
+
+    return this.kind === "http" && (this.status ?? 0) >= 500;
+  }
+}
+
+export function isApiError(err: unknown): err is ApiError {
+  return err instanceof ApiError;
+}
+
+export function isAbortError(err: unknown) {
+  return isApiError(err) && err.kind === "aborted";
+}
+
+/** The request never got an answer: worth keeping for the offline queue. */
+export function isConnectionError(err: unknown) {
+  return isApiError(err) && (err.kind === "network" || err.kind === "timeout");
+}
+
+export function isAuthError(err: unknown) {
+  return (
+    isApiError(err) &&
+    err.kind === "http" &&
+    (err.status === 401 || err.status === 403)
+  );
+}
+
+export function normalizeBase(base?: string | null) {
+  if (!base) return "";
+  const trimmed = base.trim();
+
+  return trimmed.endsWith("/") ? trimmed.slice(0, -1) : trimmed;
+}
+
+export function coerceBaseForHttps(base: string) {
+  if (typeof window === "undefined") return base;
+  if (!base.startsWith("http://")) return base;
+  if (window.location.protocol === "https:") {
+    try {
+      const url = new URL(base);
+
+      if (url.hostname === window.location.hostname) {
+        url.protocol = "https:";
+
+        return normalizeBase(url.toString());
+      }
+    } catch (err) {
+      console.warn("Invalid api base", err);
+    }
+
+    return "";
+  }
+
+  return base;
+}
+
+export function resolveApiBase() {
+  if (typeof window !== "undefined") {
+    const params = new URLSearchParams(window.location.search);
+    const qp =
+      params.get("api") || params.get("api_base") || params.get("apiBase");
+
+    if (qp) return normalizeBase(qp);
+
+    const globalBase = (window as any).__API_BASE__ || (window as any).API_BASE;
+
+    if (globalBase) return normalizeBase(String(globalBase));
+  }
+
+  // Prefer env override (es. https://my-api.example.com)
+  if (apiBaseEnv) return coerceBaseForHttps(normalizeBase(apiBaseEnv));
+  if (typeof window === "undefined") return "";
+  const { origin, port } = window.location;
+
+  // In dev (Next port 3000/3001) puntiamo al backend 8000.
+  if (port === "3000" || port === "3001") {
+    return origin.replace(`:${port}`, ":8000");
+  }
+
+  // In produzione usa path relativo per evitare mixed-content e CORS.
+  return "";
+}
+
+export function buildApiUrl(path: string, base?: string | null) {
+  const apiBase = coerceBaseForHttps(normalizeBase(base ?? resolveApiBase()));
+
+  return `${apiBase}${path}`;
+}
+
+type Query = Record<string, string | number | undefined | null>;
+
+export type RequestOptions = {
+  method?: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  query?: Query;
+  body?: unknown;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  /** Extra attempts after the first one. Defaults to 2 for GET, 0 otherwise. */
+  retries?: number;
+};
+
+function withQuery(path: string, query?: Query) {
+  if (!query) return path;
+  const params = new URLSearchParams();
+
+  Object.keys(query).forEach((key) => {
+    const value = query[key];
+
+    if (value !== undefined && value !== null && value !== "") {
+      params.append(key, String(value));
+    }
+  });
+  const qs = params.toString();
+
+  return qs ? `${path}?${qs}` : path;
+}
+
+function wait(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort);
+  });
+}
+
+export type ApiClientOptions = {
+  /** Explicit API base; when omitted it is resolved on every request. */
+  base?: string | null;
+};
+
+export function createApiClient({ base }: ApiClientOptions = {}) {
+  const attempt = async <T>(
+    path: string,
+    options: RequestOptions,
+  ): Promise<T> => {
+    const {
+      method = "GET",
+      body,
+      signal,
+      timeoutMs = DEFAULT_TIMEOUT_MS,
+    } = options;
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const forwardAbort = () => controller.abort();
+    const initData = getInitData();
+    const headers: Record<string, string> = {};
+
+    if (initData) headers[AUTH_HEADER] = initData;
+    if (body !== undefined) headers["Content-Type"] = "application/json";
+
+    if (signal?.aborted) controller.abort();
+    signal?.addEventListener("abort", forwardAbort);
+
+    let res: Response;
+    let text: string;
+
+    try {
+      res = await fetch(buildApiUrl(path, base), {
+        method,
+        cache: "no-store",
+        mode: "cors",
+        headers,
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+        signal: controller.signal,
+      });
+      // Anche il body resta sotto timeout e abort: può bloccarsi dopo gli header.
+      text = await res.text();
+    } catch (err) {
+      if (timedOut) {
+        throw new ApiError("timeout", path, `${method} ${path} timed out`);
+      }
+      if (signal?.aborted) {
+        throw new ApiError("aborted", path, `${method} ${path} aborted`);
+      }
+      throw new ApiError("network", path, `${method} ${path}: ${String(err)}`);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", forwardAbort);
+    }
+
+    if (!res.ok) {
+      throw new ApiError(
+        "http",
+        path,
+        `${method} ${path} -> HTTP ${res.status}`,
+        res.status,
+        text,
+      );
+    }
+    if (!text) return undefined as T;
+
+    try {
+      return JSON.parse(text) as T;
+    } catch (parseErr) {
+      throw new ApiError(
+        "parse",
+        path,
+        `${method} ${path}: JSON parse error ${String(parseErr)}`,
+        res.status,
+        text.slice(0, 200),
+      );
+    }
+  };
+
+  const request = async <T>(
+    path: string,
+    options: RequestOptions = {},
+  ): Promise<T> => {
+    const url = withQuery(path, options.query);
+    const retries =
+      options.retries ??
+      ((options.method ?? "GET") === "GET" ? DEFAULT_RETRIES : 0);
+
+    for (let i = 0; ; i += 1) {
+      try {
+        return await attempt<T>(url, options);
+      } catch (err) {
+        if (!isApiError(err) || !err.retryable || i >= retries) throw err;
+        await wait(RETRY_DELAY_MS * (i + 1), options.signal);
+        if (options.signal?.aborted) {
+          throw new ApiError("aborted", url, `${url} aborted`);
+        }
+      }
+    }
+  };
+
+  return {
+    request,
+
+    getGamingConfig: (opts?: RequestOptions) =>
+      request<GameConfig>("/gaming-config", opts),
+
+    getUserInfo: (
+      who: { uid?: string | null; username?: string | null },
+      opts?: RequestOptions,
+    ) =>
+      request<UserInfoResponse>("/webapp/userinfo", {
+        ...opts,
+        query: who.uid ? { uid: who.uid } : { username: who.username },
+      }),
+
+    getUserStats: (userId: number, opts?: RequestOptions) =>
+      request<UserStatsResponse>(`/user/${userId}/stats`, opts),
+
+    createPoop: (payload: CreatePoopPayload, opts?: RequestOptions) =>
+      request<CreatePoopResponse>("/poop", {
+        ...opts,
+        method: "POST",
+        body: payload,
+      }),
+
+    updatePoop: (
+      poopId: number,
+      payload: UpdatePoopPayload,
+      opts?: RequestOptions,
+    ) =>
+      request<UpdatePoopResponse>(`/poop/${poopId}`, {
+        ...opts,
+        method: "PATCH",
+        body: payload,
+      }),
+
+    deletePoop: (poopId: number, opts?: RequestOptions) =>
+      request<DeletePoopResponse>(`/poop/${poopId}`, {
+        ...opts,
+        method: "DELETE",
+      }),
+
+    /** Spends a streak-freeze token on a missed `YYYY-MM-DD` day. */
+    freezeStreakDay: (userId: number, day: string, opts?: RequestOptions) =>
+      request<PoopMutationResponse>(`/user/${userId}/streak/freeze`, {
+        ...opts,
+        method: "POST",
+        body: { day },
+      }),
+
+    setAutoFreeze: (userId: number, enabled: boolean, opts?: RequestOptions) =>
+      request<PoopMutationResponse>(`/user/${userId}/streak`, {
+        ...opts,
+        method: "PATCH",
+        body: { auto_freeze: enabled },
+      }),
+
+    /** Buys back a streak broken within the repair window. */
+    repairStreak: (userId: number, opts?: RequestOptions) =>
+      request<PoopMutationResponse>(`/user/${userId}/streak/repair`, {
+        ...opts,
+        method: "POST",
+      }),
+
+    getMonthlyPoops: (
+      userId: number,
+      year: number,
+      month: number,
+      opts?: RequestOptions,
+    ) =>
+      request<MonthlyPoopsResponse>(`/user/${userId}/poops/month`, {
+        ...opts,
+        query: { year, month },
+      }),
+
+    getXpLedger: (
+      userId: number,
+      params: { limit?: number; offset?: number } = {},
+      opts?: RequestOptions,
+    ) =>
+      request<XpLedgerResponse>(`/user/${userId}/xp-ledger`, {
+        ...opts,
+        query: { limit: params.limit, offset: params.offset || undefined },
+      }),
+
+    /** Quest bonuses granted so far, newest first. */
+    getQuestHistory: (userId: number, opts?: RequestOptions) =>
+      request<QuestHistoryResponse>(`/user/${userId}/quests`, opts),
+
+    getAchievementRarity: (opts?: RequestOptions) =>
+      request<AchievementRarityResponse>("/achievements/rarity", opts),
+
+    getPoopBucket: (year: number, opts?: RequestOptions) =>
+      request<BucketResponse>("/poopbucket", { ...opts, query: { year } }),
+
+    getGeolocatedPoops: (
+      params: { limit?: number; offset?: number } = {},
+      opts?: RequestOptions,
+    ) =>
+      request<GeoCluster[]>("/poops/geolocated", {
+        ...opts,
+        query: { limit: params.limit, offset: params.offset || undefined },
+      }),
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
+
+export const api = createApiClient();
@@ -0,0 +1,66 @@
+import type { GameConfig } from "@/types/gamification";
+
+const DEFAULT_MAX_DAYS = 7;
+const DEFAULT_GRACE_MINUTES = 60;
+const DEFAULT_LATE_MULTIPLIER = 0.5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Tolleranza per orologi leggermente avanti rispetto al server.
+const CLOCK_SKEW_MS = 60 * 1000;
+
+/** Formats a date for `<input type="datetime-local">` (local time). */
+export function toLocalInput(value: Date | string) {
+  const dt = new Date(value);
+
+  if (Number.isNaN(dt.getTime())) return "";
+  const pad = (n: number) => String(n).padStart(2, "0");
+
+  return `${dt.getFullYear()}-${pad(dt.getMonth() + 1)}-${pad(dt.getDate())}T${pad(dt.getHours())}:${pad(dt.getMinutes())}`;
+}
+
+function graceMs(config?: GameConfig | null) {
+  return (config?.backdate?.grace_minutes ?? DEFAULT_GRACE_MINUTES) * 60000;
+}
+
+/** Earliest time a log may be recorded at. */
+export function earliestBackdate(config?: GameConfig | null, now = new Date()) {
+  const cfg = config?.backdate;
+
+  if (cfg?.enabled === false) return new Date(now.getTime() - graceMs(config));
+
+  return new Date(now.getTime() - (cfg?.max_days ?? DEFAULT_MAX_DAYS) * DAY_MS);
+}
+
+/** Returns a user-facing error when `when` is outside the allowed window. */
+export function backdateError(
+  when: Date,
+  config?: GameConfig | null,
+  now = new Date(),
+) {
+  if (Number.isNaN(when.getTime())) return "Data non valida.";
+  if (when.getTime() > now.getTime() + CLOCK_SKEW_MS) {
+    return "Non puoi registrare una cacca nel futuro.";
+  }
+  if (when.getTime() < earliestBackdate(config, now).getTime()) {
+    if (config?.backdate?.enabled === false) {
+      return "La registrazione retroattiva è disattivata.";
+    }
+
+    return `Puoi registrare al massimo ${config?.backdate?.max_days ?? DEFAULT_MAX_DAYS} giorni indietro.`;
+  }
+
+  return null;
+}
+
+/** XP multiplier for a log recorded at `createdAt` (1 when on time). */
+export function lateXpMultiplier(
+  createdAt: string | undefined,
+  config?: GameConfig | null,
+  now = new Date(),
+) {
+  if (!createdAt) return 1;
+  const lateMs = now.getTime() - new Date(createdAt).getTime();
+
+  if (!(lateMs > graceMs(config))) return 1;
+
+  return config?.backdate?.late_xp_multiplier ?? DEFAULT_LATE_MULTIPLIER;
+}
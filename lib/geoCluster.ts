@@ -0,0 +1,153 @@
+import type { GeoCluster, GeoPoopWithUser } from "@/types/api";
+
+const TILE_SIZE = 256;
+
+export const DEFAULT_CLUSTER_RADIUS_PX = 60;
+
+/** A single log with its Web Mercator position normalised to 0..1. */
+export type GeoPoint = {
+  lat: number;
+  lng: number;
+  x: number;
+  y: number;
+  /** `created_at` in ms, for time filters and the timeline. */
+  time: number;
+  entry: GeoPoopWithUser;
+};
+
+export type PointCluster = {
+  /** Stable for a given zoom, so markers can be reused while panning. */
+  key: string;
+  lat: number;
+  lng: number;
+  entries: GeoPoopWithUser[];
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+};
+
+function mercatorX(lng: number) {
+  return (lng + 180) / 360;
+}
+
+function mercatorY(lat: number) {
+  const clamped = Math.max(-85.05112878, Math.min(85.05112878, lat));
+  const sin = Math.sin((clamped * Math.PI) / 180);
+
+  return 0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI);
+}
+
+/** Flattens server clusters into one point per log, projected once. */
+export function toGeoPoints(clusters: GeoCluster[]): GeoPoint[] {
+  const points: GeoPoint[] = [];
+
+  clusters.forEach((cluster) => {
+    const x = mercatorX(cluster.lng);
+    const y = mercatorY(cluster.lat);
+
+    cluster.poops.forEach((entry) => {
+      points.push({
+        lat: cluster.lat,
+        lng: cluster.lng,
+        x,
+        y,
+        time: new Date(entry.poop.created_at).getTime(),
+        entry,
+      });
+    });
+  });
+
+  return points;
+}
+
+/**
+ * Grid clustering in screen space: points falling in the same
+ * `radiusPx`-sized cell at `zoom` are merged, so bubbles split as the map
+ * zooms in. Linear in the number of points.
+ */
+export function clusterAtZoom(
+  points: GeoPoint[],
+  zoom: number,
+  radiusPx = DEFAULT_CLUSTER_RADIUS_PX,
+): PointCluster[] {
+  const world = TILE_SIZE * Math.pow(2, Math.round(zoom));
+  const cells: Record<
+    string,
+    PointCluster & { sumLat: number; sumLng: number }
+  > = {};
+  const order: string[] = [];
+
+  points.forEach((point) => {
+    const cx = Math.floor((point.x * world) / radiusPx);
+    const cy = Math.floor((point.y * world) / radiusPx);
+    const key = `${Math.round(zoom)}:${cx}:${cy}`;
+    let cell = cells[key];
+
+    if (!cell) {
+      cell = {
+        key,
+        lat: point.lat,
+        lng: point.lng,
+        entries: [],
+        south: point.lat,
+        west: point.lng,
+        north: point.lat,
+        east: point.lng,
+        sumLat: 0,
+        sumLng: 0,
+      };
+      cells[key] = cell;
+      order.push(key);
+    }
+    cell.entries.push(point.entry);
+    cell.sumLat += point.lat;
+    cell.sumLng += point.lng;
+    cell.south = Math.min(cell.south, point.lat);
+    cell.north = Math.max(cell.north, point.lat);
+    cell.west = Math.min(cell.west, point.lng);
+    cell.east = Math.max(cell.east, point.lng);
+  });
+
+  return order.map((key) => {
+    const { sumLat, sumLng, ...cell } = cells[key];
+
+    return {
+      ...cell,
+      lat: sumLat / cell.entries.length,
+      lng: sumLng / cell.entries.length,
+    };
+  });
+}
+
+/** One cluster per exact coordinate, regardless of zoom ("markers" view). */
+export function groupByPlace(points: GeoPoint[]): PointCluster[] {
+  const places: Record<string, PointCluster> = {};
+  const order: string[] = [];
+
+  points.forEach((point) => {
+    const key = `place:${point.lat},${point.lng}`;
+
+    if (!places[key]) {
+      places[key] = {
+        key,
+        lat: point.lat,
+        lng: point.lng,
+        entries: [],
+        south: point.lat,
+        west: point.lng,
+        north: point.lat,
+        east: point.lng,
+      };
+      order.push(key);
+    }
+    places[key].entries.push(point.entry);
+  });
+
+  return order.map((key) => places[key]);
+}
+
+/** True when every log in the cluster shares the same coordinates. */
+export function isSinglePlace(cluster: PointCluster) {
+  return cluster.south === cluster.north && cluster.west === cluster.east;
+}
@@ -0,0 +1,77 @@
+import type { GeoPoopWithUser } from "@/types/api";
+
+export type GeoWho = "all" | "me" | "friend";
+
+export type GeoFilters = {
+  who: GeoWho;
+  /** Username shown when `who` is "friend". */
+  friend: string;
+  /** Inclusive day range as `YYYY-MM-DD`; empty means unbounded. */
+  from: string;
+  to: string;
+  /** Empty list = every option. */
+  consistency: string[];
+  size: string[];
+};
+
+export const DEFAULT_GEO_FILTERS: GeoFilters = {
+  who: "all",
+  friend: "",
+  from: "",
+  to: "",
+  consistency: [],
+  size: [],
+};
+
+function dayBoundary(value: string, endOfDay: boolean) {
+  if (!value) return null;
+  const dt = new Date(`${value}T00:00:00`);
+
+  if (Number.isNaN(dt.getTime())) return null;
+  if (endOfDay) dt.setHours(23, 59, 59, 999);
+
+  return dt.getTime();
+}
+
+/** Number of filters that differ from the defaults (for the button badge). */
+export function activeGeoFilterCount(filters: GeoFilters) {
+  return [
+    filters.who !== "all",
+    Boolean(filters.from || filters.to),
+    filters.consistency.length > 0,
+    filters.size.length > 0,
+  ].filter(Boolean).length;
+}
+
+/** Builds a predicate for the active filters; `meId` is the session user. */
+export function geoFilterPredicate(
+  filters: GeoFilters,
+  meId: number | null | undefined,
+) {
+  const fromMs = dayBoundary(filters.from, false);
+  const toMs = dayBoundary(filters.to, true);
+
+  return (entry: GeoPoopWithUser) => {
+    const { poop } = entry;
+
+    if (filters.who === "me" && poop.user_id !== meId) return false;
+    if (filters.who === "friend" && entry.username !== filters.friend) {
+      return false;
+    }
+    if (
+      filters.consistency.length &&
+      !filters.consistency.includes(poop.consistency)
+    ) {
+      return false;
+    }
+    if (filters.size.length && !filters.size.includes(poop.size)) return false;
+    if (fromMs !== null || toMs !== null) {
+      const created = new Date(poop.created_at).getTime();
+
+      if (fromMs !== null && created < fromMs) return false;
+      if (toMs !== null && created > toMs) return false;
+    }
+
+    return true;
+  };
+}
@@ -0,0 +1,154 @@
+import type * as Leaflet from "leaflet";
+
+export type HeatPoint = { lat: number; lng: number; weight: number };
+
+export type HeatOptions = {
+  /** Radius of a single point in pixels. */
+  radius?: number;
+  blur?: number;
+  /** Opacity of the hottest areas (0..1). */
+  maxOpacity?: number;
+};
+
+const GRADIENT: Array<[number, string]> = [
+  [0.2, "#4fc3f7"],
+  [0.4, "#66bb6a"],
+  [0.6, "#ffeb3b"],
+  [0.8, "#ff9800"],
+  [1, "#e53935"],
+];
+
+function createStamp(radius: number, blur: number) {
+  const stamp = document.createElement("canvas");
+  const size = radius + blur;
+  const ctx = stamp.getContext("2d");
+
+  stamp.width = size * 2;
+  stamp.height = size * 2;
+  if (!ctx) return stamp;
+  // Il cerchio è disegnato fuori dal canvas: resta solo la sua ombra sfumata.
+  ctx.shadowOffsetX = size * 2;
+  ctx.shadowOffsetY = size * 2;
+  ctx.shadowBlur = blur;
+  ctx.shadowColor = "black";
+  ctx.beginPath();
+  ctx.arc(-size, -size, radius, 0, Math.PI * 2, true);
+  ctx.closePath();
+  ctx.fill();
+
+  return stamp;
+}
+
+function createPalette() {
+  const canvas = document.createElement("canvas");
+  const ctx = canvas.getContext("2d");
+
+  canvas.width = 1;
+  canvas.height = 256;
+  if (!ctx) return new Uint8ClampedArray(256 * 4);
+  const gradient = ctx.createLinearGradient(0, 0, 0, 256);
+
+  GRADIENT.forEach(([stop, color]) => gradient.addColorStop(stop, color));
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, 1, 256);
+
+  return ctx.getImageData(0, 0, 1, 256).data;
+}
+
+/**
+ * Canvas density layer for a Leaflet map: every point is stamped as a
+ * blurred circle weighted by `weight`, then the alpha channel is mapped
+ * onto a cold→hot palette. Redrawn after each pan/zoom.
+ */
+export function createHeatOverlay(
+  L: typeof Leaflet,
+  { radius = 25, blur = 15, maxOpacity = 0.8 }: HeatOptions = {},
+) {
+  let map: Leaflet.Map | null = null;
+  let points: HeatPoint[] = [];
+  const canvas = document.createElement("canvas");
+  const stamp = createStamp(radius, blur);
+  const palette = createPalette();
+  const margin = radius + blur;
+
+  canvas.className = "heat-overlay";
+  canvas.style.position = "absolute";
+  canvas.style.pointerEvents = "none";
+
+  const redraw = () => {
+    const current = map;
+
+    if (!current) return;
+    const size = current.getSize();
+    const ctx = canvas.getContext("2d");
+
+    canvas.width = size.x;
+    canvas.height = size.y;
+    canvas.style.visibility = "visible";
+    L.DomUtil.setPosition(canvas, current.containerPointToLayerPoint([0, 0]));
+    if (!ctx || !size.x || !size.y) return;
+
+    const maxWeight = points.reduce((max, p) => Math.max(max, p.weight), 0);
+
+    if (!maxWeight) return;
+    points.forEach((point) => {
+      const pos = current.latLngToContainerPoint([point.lat, point.lng]);
+
+      if (
+        pos.x < -margin ||
+        pos.y < -margin ||
+        pos.x > size.x + margin ||
+        pos.y > size.y + margin
+      ) {
+        return;
+      }
+      ctx.globalAlpha = Math.max(point.weight / maxWeight, 0.05);
+      ctx.drawImage(stamp, pos.x - margin, pos.y - margin);
+    });
+
+    const image = ctx.getImageData(0, 0, size.x, size.y);
+    const pixels = image.data;
+
+    for (let i = 3; i < pixels.length; i += 4) {
+      const alpha = pixels[i];
+
+      if (!alpha) continue;
+      const offset = alpha * 4;
+
+      pixels[i - 3] = palette[offset];
+      pixels[i - 2] = palette[offset + 1];
+      pixels[i - 1] = palette[offset + 2];
+      pixels[i] = Math.min(alpha * 2, maxOpacity * 255);
+    }
+    ctx.putImageData(image, 0, 0);
+  };
+
+  // Durante l'animazione di zoom il canvas sarebbe disallineato.
+  const hide = () => {
+    canvas.style.visibility = "hidden";
+  };
+
+  return {
+    addTo(target: Leaflet.Map) {
+      if (map === target) return;
+      map = target;
+      target.getPanes().overlayPane.appendChild(canvas);
+      target.on("moveend zoomend resize", redraw);
+      target.on("zoomstart", hide);
+      redraw();
+    },
+    remove() {
+      if (!map) return;
+      map.off("moveend zoomend resize", redraw);
+      map.off("zoomstart", hide);
+      canvas.remove();
+      map = null;
+    },
+    setPoints(next: HeatPoint[]) {
+      points = next;
+      redraw();
+    },
+  };
+}
+
+export type HeatOverlay = ReturnType<typeof createHeatOverlay>;
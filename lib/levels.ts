@@ -0,0 +1,39 @@
+import type { GameConfig, LevelDef } from "@/types/gamification";
+
+const DEFAULT_LEVELS: LevelDef[] = [
+  { level: 1, title: "Principiante", emoji: "🧻" },
+  { level: 5, title: "Habitué del WC", emoji: "🚽" },
+  { level: 10, title: "Poop Master", emoji: "👑" },
+];
+
+function levelDefs(config?: GameConfig | null) {
+  const defs = config?.levels?.length ? config.levels : DEFAULT_LEVELS;
+
+  return [...defs].sort((a, b) => a.level - b.level);
+}
+
+/** The highest title reached at `level`, if any. */
+export function levelTitle(
+  config: GameConfig | null | undefined,
+  level: number | null | undefined,
+): LevelDef | null {
+  if (!level) return null;
+
+  return levelDefs(config).reduce<LevelDef | null>(
+    (found, def) => (def.level <= level ? def : found),
+    null,
+  );
+}
+
+export function formatLevelTitle(def: LevelDef) {
+  return def.emoji ? `${def.emoji} ${def.title}` : def.title;
+}
+
+/** Titles and rewards unlocked going from level `from` to level `to`. */
+export function levelsReached(
+  config: GameConfig | null | undefined,
+  from: number,
+  to: number,
+) {
+  return levelDefs(config).filter((def) => def.level > from && def.level <= to);
+}
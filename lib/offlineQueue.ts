@@ -0,0 +1,122 @@
+import type { CreatePoopPayload } from "@/types/api";
+
+const DB_NAME = "pooplog";
+const DB_VERSION = 1;
+const STORE = "pending_poops";
+
+export type PendingPoop = {
+  id?: number;
+  payload: CreatePoopPayload & { created_at: string; client_id: string };
+  queued_at: string;
+  attempts: number;
+  last_error?: string;
+};
+
+// Fallback quando IndexedDB non è disponibile (SSR, navigazione privata).
+let memoryStore: PendingPoop[] = [];
+let memorySeq = 0;
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === "undefined") return Promise.resolve(null);
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+
+      req.onupgradeneeded = () => {
+        if (!req.result.objectStoreNames.contains(STORE)) {
+          req.result.createObjectStore(STORE, {
+            keyPath: "id",
+            autoIncrement: true,
+          });
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        console.warn("IndexedDB unavailable", req.error);
+        resolve(null);
+      };
+    });
+  }
+
+  return dbPromise;
+}
+
+function run<T>(
+  db: IDBDatabase,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest,
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const req = action(db.transaction(STORE, mode).objectStore(STORE));
+
+    req.onsuccess = () => resolve(req.result as T);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export function createClientId() {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID();
+  }
+
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+export async function enqueuePoop(
+  payload: PendingPoop["payload"],
+): Promise<PendingPoop> {
+  const entry: PendingPoop = {
+    payload,
+    queued_at: new Date().toISOString(),
+    attempts: 0,
+  };
+  const db = await openDb();
+
+  if (!db) {
+    memorySeq += 1;
+    const stored = { ...entry, id: memorySeq };
+
+    memoryStore = [...memoryStore, stored];
+
+    return stored;
+  }
+  const id = await run<number>(db, "readwrite", (store) => store.add(entry));
+
+  return { ...entry, id };
+}
+
+export async function listPendingPoops(): Promise<PendingPoop[]> {
+  const db = await openDb();
+
+  if (!db) return [...memoryStore];
+  const all = await run<PendingPoop[]>(db, "readonly", (store) =>
+    store.getAll(),
+  );
+
+  return all.sort((a, b) =>
+    a.payload.created_at.localeCompare(b.payload.created_at),
+  );
+}
+
+export async function updatePendingPoop(entry: PendingPoop) {
+  const db = await openDb();
+
+  if (!db) {
+    memoryStore = memoryStore.map((e) => (e.id === entry.id ? entry : e));
+
+    return;
+  }
+  await run(db, "readwrite", (store) => store.put(entry));
+}
+
+export async function removePendingPoop(id: number) {
+  const db = await openDb();
+
+  if (!db) {
+    memoryStore = memoryStore.filter((e) => e.id !== id);
+
+    return;
+  }
+  await run(db, "readwrite", (store) => store.delete(id));
+}
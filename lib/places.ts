@@ -0,0 +1,92 @@
+import type { GameConfig } from "@/types/gamification";
+
+import { distanceMeters, LatLng } from "@/lib/privacy";
+
+const STORAGE_KEY = "ts_places";
+const HOME_KEY = "home";
+
+export const DEFAULT_PLACE_RADIUS_M = 150;
+export const MIN_PLACE_RADIUS_M = 25;
+
+export type SavedPlace = {
+  id: string;
+  label: string;
+  /** Option key in `GameConfig.location` this place selects. */
+  location: string;
+  lat: number;
+  lng: number;
+  radius_m: number;
+};
+
+export type FarFromHome = {
+  distance_km: number;
+  xp: number;
+};
+
+/**
+ * Radius typed in a number input, validated once editing is over: at least
+ * `min`, `fallback` when the field is empty or not a number.
+ */
+export function radiusFromInput(value: string, min: number, fallback: number) {
+  const n = Number(value);
+
+  return value.trim() && Number.isFinite(n)
+    ? Math.max(min, Math.round(n))
+    : fallback;
+}
+
+export function loadPlaces(): SavedPlace[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+
+    return raw ? (JSON.parse(raw) as SavedPlace[]) : [];
+  } catch (err) {
+    console.warn("Saved places unreadable", err);
+
+    return [];
+  }
+}
+
+export function savePlaces(places: SavedPlace[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(places));
+}
+
+/** The closest saved place whose geofence contains `point`. */
+export function placeAt(point: LatLng, places: SavedPlace[]) {
+  let best: SavedPlace | null = null;
+  let bestDistance = Infinity;
+
+  for (let i = 0; i < places.length; i += 1) {
+    const d = distanceMeters(point, places[i]);
+
+    if (d <= places[i].radius_m && d < bestDistance) {
+      best = places[i];
+      bestDistance = d;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Far-from-home bonus the backend would award at `point`, or null when
+ * there is no saved home, no bonus configured or `point` is too close.
+ */
+export function farFromHomeBonus(
+  point: LatLng,
+  places: SavedPlace[],
+  config?: GameConfig | null,
+): FarFromHome | null {
+  const geo = config?.geolocation;
+  const xp = geo?.xp_bonus?.far_from_home;
+  const thresholdKm = geo?.distance_thresholds?.far_from_home_km;
+  const home = places.find((p) => p.location === HOME_KEY);
+
+  if (!home || !xp || thresholdKm === undefined) return null;
+  const distanceKm = distanceMeters(point, home) / 1000;
+
+  if (distanceKm < thresholdKm) return null;
+
+  return { distance_km: distanceKm, xp };
+}
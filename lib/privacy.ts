@@ -0,0 +1,160 @@
+import type { GeoPoopWithUser } from "@/types/api";
+import type { GameConfig } from "@/types/gamification";
+
+const STORAGE_KEY = "ts_privacy";
+const DEFAULT_GRID_OPTIONS_M = [0, 100, 500, 1000];
+const DEFAULT_EXCLUSION_RADIUS_M = 300;
+const METERS_PER_DEGREE = 111320;
+const EARTH_RADIUS_M = 6371000;
+
+export type SensitivePlace = {
+  id: string;
+  label: string;
+  lat: number;
+  lng: number;
+  /** Logs closer than this never share coordinates. */
+  radius_m: number;
+};
+
+export type PrivacySettings = {
+  /** Fuzzing grid in metres; `null` follows `GameConfig.privacy`. */
+  grid_m: number | null;
+  private_by_default: boolean;
+  anonymous: boolean;
+  sensitive_places: SensitivePlace[];
+};
+
+export type LatLng = { lat: number; lng: number };
+
+/** What a log will actually upload, given the current settings. */
+export type SharedLocation =
+  | { excluded: SensitivePlace }
+  | {
+      excluded: null;
+      lat: number;
+      lng: number;
+      accuracy?: number;
+      precision_m: number;
+    };
+
+export const DEFAULT_PRIVACY: PrivacySettings = {
+  grid_m: null,
+  private_by_default: false,
+  anonymous: false,
+  sensitive_places: [],
+};
+
+export function loadPrivacySettings(): PrivacySettings {
+  if (typeof window === "undefined") return DEFAULT_PRIVACY;
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+
+    if (!raw) return DEFAULT_PRIVACY;
+
+    return { ...DEFAULT_PRIVACY, ...JSON.parse(raw) };
+  } catch (err) {
+    console.warn("Privacy settings unreadable", err);
+
+    return DEFAULT_PRIVACY;
+  }
+}
+
+export function savePrivacySettings(settings: PrivacySettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+export function gridOptions(config?: GameConfig | null) {
+  const options = config?.privacy?.grid_options_m;
+
+  return options && options.length ? options : DEFAULT_GRID_OPTIONS_M;
+}
+
+export function effectiveGrid(
+  settings: PrivacySettings,
+  config?: GameConfig | null,
+) {
+  return settings.grid_m ?? config?.privacy?.default_grid_m ?? 0;
+}
+
+export function defaultExclusionRadius(config?: GameConfig | null) {
+  return config?.privacy?.exclusion_radius_m ?? DEFAULT_EXCLUSION_RADIUS_M;
+}
+
+/** Great-circle distance in metres (haversine). */
+export function distanceMeters(a: LatLng, b: LatLng) {
+  const rad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = rad(b.lat - a.lat);
+  const dLng = rad(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(rad(a.lat)) * Math.cos(rad(b.lat)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/** The first sensitive place whose radius contains `point`, if any. */
+export function sensitivePlaceAt(point: LatLng, places: SensitivePlace[]) {
+  return places.find((p) => distanceMeters(point, p) <= p.radius_m) || null;
+}
+
+/**
+ * Snaps `point` to the centre of a `gridM`-metre cell, so every log in the
+ * same cell uploads identical coordinates.
+ */
+export function fuzzCoordinates(point: LatLng, gridM: number): LatLng {
+  if (!(gridM > 0)) return point;
+  const round6 = (n: number) => Number(n.toFixed(6));
+  const latStep = gridM / METERS_PER_DEGREE;
+  const lat = (Math.floor(point.lat / latStep) + 0.5) * latStep;
+  const lngStep =
+    gridM /
+    (METERS_PER_DEGREE * Math.max(0.01, Math.cos((lat * Math.PI) / 180)));
+  const lng = (Math.floor(point.lng / lngStep) + 0.5) * lngStep;
+
+  return { lat: round6(lat), lng: round6(lng) };
+}
+
+export function formatPrecision(gridM: number) {
+  if (!(gridM > 0)) return "esatta";
+  if (gridM >= 1000) {
+    return `~${(gridM / 1000).toLocaleString("it-IT")} km`;
+  }
+
+  return `~${gridM} m`;
+}
+
+export function sharedLocation(
+  reading: LatLng & { accuracy?: number },
+  settings: PrivacySettings,
+  config?: GameConfig | null,
+): SharedLocation {
+  const excluded = sensitivePlaceAt(reading, settings.sensitive_places);
+
+  if (excluded) return { excluded };
+  const grid = effectiveGrid(settings, config);
+  const { lat, lng } = fuzzCoordinates(reading, grid);
+  const accuracy =
+    grid > 0
+      ? Math.max(reading.accuracy ?? 0, Math.round(grid / 2))
+      : reading.accuracy;
+
+  return { excluded: null, lat, lng, accuracy, precision_m: grid };
+}
+
+/**
+ * Applies the author's choices to a map entry: other users' private logs
+ * are dropped and anonymous ones lose their username.
+ */
+export function publicGeoEntry(
+  entry: GeoPoopWithUser,
+  meId: number | null | undefined,
+): GeoPoopWithUser | null {
+  const mine =
+    meId !== null && meId !== undefined && entry.poop.user_id === meId;
+
+  if (mine) return entry;
+  if (entry.poop.visibility === "private") return null;
+  if (entry.poop.anonymous) return { ...entry, username: "" };
+
+  return entry;
+}
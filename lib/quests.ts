@@ -0,0 +1,284 @@
+import type { PoopEntry, QuestClaim, QuestReward } from "@/types/api";
+import type {
+  GameConfig,
+  GoalProgress,
+  QuestDef,
+  QuestPeriod,
+  Stats,
+  XpLine,
+} from "@/types/gamification";
+
+import {
+  ConditionLog,
+  evaluateCondition,
+  progressSummary,
+} from "@/lib/achievements";
+import { api, RequestOptions } from "@/lib/api";
+import { dayKey } from "@/lib/stats";
+
+const DEFAULT_COUNTS: Record<QuestPeriod, number> = { daily: 2, weekly: 2 };
+
+export const DEFAULT_QUESTS: QuestDef[] = [
+  {
+    id: "early_bird",
+    period: "daily",
+    title: "Mattiniero",
+    emoji: "🌅",
+    description: "Un log prima delle 10.",
+    xp: 15,
+    condition: { metric: "total_poops", target: 1, hours: [5, 10] },
+  },
+  {
+    id: "double",
+    period: "daily",
+    title: "Doppietta",
+    emoji: "✌️",
+    description: "Due log nella stessa giornata.",
+    xp: 20,
+    condition: { poops_in_one_day: 2 },
+  },
+  {
+    id: "daily_one",
+    period: "daily",
+    title: "Presente!",
+    emoji: "🙋",
+    description: "Almeno un log oggi.",
+    xp: 10,
+    condition: { total_poops: 1 },
+  },
+  {
+    id: "explorer",
+    period: "weekly",
+    title: "Esploratore",
+    emoji: "🧭",
+    description: "Un log in una location mai usata prima.",
+    xp: 40,
+    condition: { new_locations: 1 },
+  },
+  {
+    id: "steady",
+    period: "weekly",
+    title: "Costanza",
+    emoji: "📆",
+    description: "Tre giorni di fila con almeno un log.",
+    xp: 35,
+    condition: { daily_streak: 3 },
+  },
+  {
+    id: "weekend",
+    period: "weekly",
+    title: "Weekend attivo",
+    emoji: "🏖️",
+    description: "Due log nel weekend.",
+    xp: 30,
+    condition: { weekend: 2 },
+  },
+];
+
+export type QuestStatus = {
+  quest: QuestDef;
+  /** Day (`YYYY-MM-DD`) or ISO week (`YYYY-Www`) the quest belongs to. */
+  periodKey: string;
+  progress: GoalProgress;
+  met: boolean;
+};
+
+/** Midnight of the day, or Monday midnight of the week, containing `now`. */
+export function periodStart(period: QuestPeriod, now = new Date()) {
+  const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+  if (period === "weekly") {
+    start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  }
+
+  return start;
+}
+
+export function periodKey(period: QuestPeriod, now = new Date()) {
+  if (period === "daily") return dayKey(now);
+  // Settimana ISO: quella che contiene il giovedì.
+  const thursday = periodStart("weekly", now);
+
+  thursday.setDate(thursday.getDate() + 3);
+  const jan1 = new Date(thursday.getFullYear(), 0, 1);
+  const dayOfYear = Math.round((thursday.getTime() - jan1.getTime()) / 864e5);
+  const week = Math.floor(dayOfYear / 7) + 1;
+
+  return `${thursday.getFullYear()}-W${String(week).padStart(2, "0")}`;
+}
+
+function hash(text: string) {
+  let h = 5381;
+
+  for (let i = 0; i < text.length; i += 1) {
+    h = ((h * 33) ^ text.charCodeAt(i)) >>> 0;
+  }
+
+  return h;
+}
+
+function questPool(config: GameConfig | null | undefined) {
+  const pool = config?.quests?.pool;
+
+  return pool?.length ? pool : DEFAULT_QUESTS;
+}
+
+/** The quest definition behind a server reward, when still in the pool. */
+export function findQuest(config: GameConfig | null | undefined, id: string) {
+  return questPool(config).find((q) => q.id === id);
+}
+
+/**
+ * The quests of the current day or week: a stable draw from the pool, so
+ * every device shows the same ones until the period rolls over.
+ */
+export function activeQuests(
+  config: GameConfig | null | undefined,
+  period: QuestPeriod,
+  now = new Date(),
+) {
+  const cfg = config?.quests;
+  const pool = questPool(config).filter((q) => q.period === period);
+  const count =
+    (period === "daily" ? cfg?.daily_count : cfg?.weekly_count) ??
+    DEFAULT_COUNTS[period];
+  const key = periodKey(period, now);
+
+  return pool
+    .map((quest) => ({ quest, rank: hash(`${key}:${quest.id}`) }))
+    .sort((a, b) => a.rank - b.rank)
+    .slice(0, count)
+    .map(({ quest }) => quest);
+}
+
+/** Locations first used within the period, from lifetime stats. */
+function newLocations(logs: ConditionLog[], stats?: Stats | null) {
+  const lifetime = stats?.locationCounts;
+
+  if (!lifetime) return undefined;
+  const inPeriod: Record<string, number> = {};
+
+  logs.forEach((log) => {
+    inPeriod[log.location] = (inPeriod[log.location] || 0) + 1;
+  });
+
+  return Object.keys(inPeriod).filter(
+    (loc) => (lifetime[loc] || 0) <= inPeriod[loc],
+  ).length;
+}
+
+/** Progress of every active quest on the logs of its own period. */
+export function questStatuses(
+  config: GameConfig | null | undefined,
+  logs: ConditionLog[],
+  stats?: Stats | null,
+  now = new Date(),
+): QuestStatus[] {
+  const periods: QuestPeriod[] = ["daily", "weekly"];
+
+  return periods.reduce<QuestStatus[]>((acc, period) => {
+    const since = periodStart(period, now).getTime();
+    const periodLogs = logs.filter((log) => {
+      const ms = new Date(log.created_at).getTime();
+
+      return ms >= since && ms <= now.getTime();
+    });
+    const fresh = newLocations(periodLogs, stats);
+    const key = periodKey(period, now);
+
+    activeQuests(config, period, now).forEach((quest) => {
+      const result = config
+        ? evaluateCondition(quest.condition, {
+            config,
+            logs: periodLogs,
+            extra: fresh === undefined ? undefined : { new_locations: fresh },
+          })
+        : null;
+
+      acc.push({
+        quest,
+        periodKey: key,
+        met: Boolean(result?.met),
+        progress: result
+          ? progressSummary(result, result.met)
+          : { current: 0, target: 1, pct: 0, label: quest.title },
+      });
+    });
+
+    return acc;
+  }, []);
+}
+
+/**
+ * Logs from the start of the current week, via the same monthly endpoint
+ * PoopLog uses (two months when the week straddles them).
+ */
+export async function loadQuestLogs(
+  userId: number,
+  now = new Date(),
+  opts?: RequestOptions,
+) {
+  const start = periodStart("weekly", now);
+  const months = [start];
+
+  if (start.getMonth() !== now.getMonth()) months.push(now);
+  const pages = await Promise.all(
+    months.map((d) =>
+      api.getMonthlyPoops(userId, d.getFullYear(), d.getMonth() + 1, opts),
+    ),
+  );
+
+  return pages.reduce<PoopEntry[]>(
+    (acc, page) => acc.concat(page?.poops || []),
+    [],
+  );
+}
+
+/** Quests met by `after` that were not met yet in `before`. */
+export function newlyCompleted(before: QuestStatus[], after: QuestStatus[]) {
+  return after.filter(
+    (s) =>
+      s.met &&
+      !before.some(
+        (b) =>
+          b.met && b.quest.id === s.quest.id && b.periodKey === s.periodKey,
+      ),
+  );
+}
+
+/** What the log tells the server it completed; the server decides. */
+export function questClaims(completed: QuestStatus[]): QuestClaim[] {
+  return completed.map((s) => ({ id: s.quest.id, period_key: s.periodKey }));
+}
+
+/** Bonus lines expected for `completed`, until the server confirms them. */
+export function questXpLines(completed: QuestStatus[]): XpLine[] {
+  return completed.map((s) => ({
+    id: `quest_${s.quest.id}`,
+    label: `Quest: ${s.quest.title}`,
+    emoji: s.quest.emoji || "🎯",
+    xp: s.quest.xp,
+    tentative: true,
+  }));
+}
+
+export function rewardTitle(reward: QuestReward, config?: GameConfig | null) {
+  return reward.title || findQuest(config, reward.id)?.title || reward.id;
+}
+
+export function rewardEmoji(reward: QuestReward, config?: GameConfig | null) {
+  return reward.emoji || findQuest(config, reward.id)?.emoji || "🎯";
+}
+
+/** Bonus lines for the quest XP the server actually granted. */
+export function rewardXpLines(
+  rewards: QuestReward[] | undefined,
+  config?: GameConfig | null,
+): XpLine[] {
+  return (rewards || []).map((reward) => ({
+    id: `quest_${reward.id}`,
+    label: `Quest: ${rewardTitle(reward, config)}`,
+    emoji: rewardEmoji(reward, config),
+    xp: reward.xp,
+  }));
+}
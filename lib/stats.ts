@@ -0,0 +1,76 @@
+import type { ApiStats } from "@/types/api";
+import type { Stats } from "@/types/gamification";
+
+export const EMPTY_STATS: Stats = {
+  today: 0,
+  total: 0,
+  streak: 0,
+  combo: 0,
+  consistencyCounts: {},
+  sizeCounts: {},
+  locationCounts: {},
+};
+
+/** Maps backend stats onto `Stats`, keeping `prev` for missing fields. */
+export function statsFromApi(
+  raw: ApiStats | undefined | null,
+  prev: Stats = EMPTY_STATS,
+): Stats {
+  if (!raw) return prev;
+
+  return {
+    today: raw.poops_today ?? prev.today,
+    total: raw.total_poops ?? raw.poops_total ?? raw.total ?? prev.total,
+    streak: raw.streak_days ?? prev.streak,
+    combo: raw.best_combo ?? prev.combo,
+    comboDay: raw.best_combo_day ?? prev.comboDay,
+    consistencyCounts: raw.consistency_counts || prev.consistencyCounts,
+    sizeCounts: raw.size_counts || prev.sizeCounts,
+    locationCounts: raw.location_counts || prev.locationCounts,
+  };
+}
+
+/** `YYYY-MM-DD` key of the local day of `d`. */
+export function dayKey(d: Date) {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+/** True when `value` (ISO string) falls today; a missing value means now. */
+export function isToday(value?: string) {
+  if (!value) return true;
+
+  return new Date(value).toDateString() === new Date().toDateString();
+}
+
+/** Counts one more log locally, mirroring what the backend will record. */
+export function countFlush(
+  prev: Stats,
+  entry: {
+    consistency?: string;
+    size?: string;
+    location?: string;
+    created_at?: string;
+  },
+): Stats {
+  const bump = (counts: Record<string, number> | undefined, key?: string) => {
+    const next = { ...(counts || {}) };
+
+    if (key) next[key] = (next[key] || 0) + 1;
+
+    return next;
+  };
+
+  const today = isToday(entry.created_at) ? prev.today + 1 : prev.today;
+  const record = today > prev.combo;
+
+  return {
+    ...prev,
+    today,
+    combo: record ? today : prev.combo,
+    comboDay: record ? dayKey(new Date()) : prev.comboDay,
+    total: prev.total + 1,
+    consistencyCounts: bump(prev.consistencyCounts, entry.consistency),
+    sizeCounts: bump(prev.sizeCounts, entry.size),
+    locationCounts: bump(prev.locationCounts, entry.location),
+  };
+}
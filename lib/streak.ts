@@ -0,0 +1,87 @@
+import type { StreakRepairOffer, StreakState } from "@/types/api";
+import type { GameConfig, Stats } from "@/types/gamification";
+import type { Progress } from "@/types/progress";
+
+import { dayKey } from "@/lib/stats";
+
+/** From this hour a streak without today's log is shown as at risk. */
+const AT_RISK_HOUR = 20;
+
+/** The repair offer while it can still be accepted. */
+export function activeRepair(
+  streak: StreakState | null | undefined,
+  now = new Date(),
+): StreakRepairOffer | null {
+  const offer = streak?.repair;
+
+  if (!offer) return null;
+  const expires = new Date(offer.expires_at).getTime();
+
+  return Number.isNaN(expires) || expires <= now.getTime() ? null : offer;
+}
+
+export function isFrozenDay(
+  streak: StreakState | null | undefined,
+  key: string,
+) {
+  return Boolean(streak?.frozen_days?.includes(key));
+}
+
+/**
+ * XP still missing for the next token; null when tokens are not earned
+ * with XP or the cap is reached.
+ */
+export function xpToNextFreeze(
+  progress: Progress | null,
+  streak: StreakState | null,
+  config?: GameConfig | null,
+) {
+  const every = config?.streak_freeze?.xp_per_token;
+  const max = config?.streak_freeze?.max_tokens;
+
+  if (!every || !progress || !streak) return null;
+  if (max !== undefined && streak.freezes >= max) return null;
+
+  return every - ((progress.xp_total ?? 0) % every);
+}
+
+/** A token can cover a past day without logs that is not frozen yet. */
+export function canFreezeDay(
+  day: Date,
+  key: string,
+  hasLogs: boolean,
+  streak: StreakState | null,
+  now = new Date(),
+) {
+  if (!streak || streak.freezes <= 0 || hasLogs) return false;
+  const todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+  return day < todayStart && !isFrozenDay(streak, key);
+}
+
+/** First and last day of the current streak, for the PoopLog deep link. */
+export function streakRange(stats: Stats, now = new Date()) {
+  if (stats.streak <= 0) return null;
+  const last = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+  // Senza log oggi lo streak vivo finisce ieri.
+  if (!stats.today) last.setDate(last.getDate() - 1);
+  const first = new Date(last);
+
+  first.setDate(first.getDate() - (stats.streak - 1));
+
+  return { from: dayKey(first), to: dayKey(last) };
+}
+
+/** Hours left today when the streak would break at midnight, else null. */
+export function streakAtRisk(
+  stats: Stats,
+  streak: StreakState | null,
+  now = new Date(),
+) {
+  if (stats.streak <= 0 || stats.today > 0) return null;
+  if (isFrozenDay(streak, dayKey(now))) return null;
+  if (now.getHours() < AT_RISK_HOUR) return null;
+
+  return 24 - now.getHours();
+}
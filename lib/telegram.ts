@@ -0,0 +1,42 @@
+const devInitData = process.env.NEXT_PUBLIC_DEV_INIT_DATA || "";
+
+export type TelegramUser = {
+  id: number;
+  username?: string;
+  first_name?: string;
+  last_name?: string;
+  photo_url?: string;
+};
+
+export function getTelegram() {
+  if (typeof window === "undefined") return null;
+
+  return (window as any).Telegram?.WebApp || null;
+}
+
+/**
+ * Signed `initData` string proving who the user is. Outside Telegram it
+ * falls back to `NEXT_PUBLIC_DEV_INIT_DATA` (local/staging only).
+ */
+export function getInitData(): string {
+  const initData = getTelegram()?.initData;
+
+  if (typeof initData === "string" && initData) return initData;
+
+  return devInitData;
+}
+
+/** Reads the `user` field out of an initData query string. */
+export function parseInitDataUser(initData: string): TelegramUser | null {
+  if (!initData) return null;
+  try {
+    const raw = new URLSearchParams(initData).get("user");
+    const user = raw ? (JSON.parse(raw) as TelegramUser) : null;
+
+    return user && typeof user.id === "number" ? user : null;
+  } catch (err) {
+    console.warn("Invalid initData user", err);
+
+    return null;
+  }
+}
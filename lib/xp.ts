@@ -0,0 +1,199 @@
+import type {
+  GameConfig,
+  XpBreakdown,
+  XpLine,
+  XpMultiplier,
+  XpTier,
+} from "@/types/gamification";
+import type { Progress } from "@/types/progress";
+
+import { lateXpMultiplier } from "@/lib/backdate";
+
+export type XpEntry = {
+  consistency?: string;
+  size?: string;
+  location?: string;
+  created_at?: string;
+};
+
+export type XpContext = {
+  /** Current streak in days, before this log. */
+  streak?: number;
+  /** Logs already recorded today; omit for logs on another day. */
+  today?: number;
+  /**
+   * Far-from-home bonus the log qualifies for. Home lives only on this
+   * device, so the line stays tentative until the server confirms it.
+   */
+  farFromHomeXp?: number;
+  /** Coordinates are uploaded, so the server may add a new-place bonus. */
+  geoShared?: boolean;
+};
+
+function tierFactor(tiers: XpTier[] | undefined, value: number | undefined) {
+  if (!tiers || value === undefined) return 1;
+
+  return tiers.reduce(
+    (best, tier) =>
+      value >= tier.min && tier.factor > best ? tier.factor : best,
+    1,
+  );
+}
+
+/** Line-by-line XP estimate for a log; `total` mirrors the backend rules. */
+export function xpBreakdown(
+  entry: XpEntry,
+  config?: GameConfig | null,
+  context: XpContext = {},
+): XpBreakdown {
+  const lines: XpLine[] = [];
+  const optionLine = (
+    group: "consistency" | "size" | "location",
+    key?: string,
+  ) => {
+    const option = key ? config?.[group]?.[key] : undefined;
+
+    if (option?.xp) {
+      lines.push({
+        id: group,
+        label: option.label || key || group,
+        emoji: option.emoji,
+        xp: option.xp,
+      });
+    }
+  };
+
+  if (config?.base_xp) {
+    lines.push({ id: "base", label: "Base", emoji: "💩", xp: config.base_xp });
+  }
+  optionLine("consistency", entry.consistency);
+  optionLine("size", entry.size);
+  optionLine("location", entry.location);
+
+  const bonus = config?.geolocation?.xp_bonus;
+
+  if (context.farFromHomeXp) {
+    lines.push({
+      id: "far_from_home",
+      label: "Lontano da casa",
+      emoji: "✈️",
+      xp: context.farFromHomeXp,
+      tentative: true,
+    });
+  }
+  if (context.geoShared && bonus?.new_place) {
+    lines.push({
+      id: "new_place",
+      label: "Posto nuovo",
+      emoji: "🗺️",
+      xp: bonus.new_place,
+      tentative: true,
+    });
+  }
+
+  const multipliers: XpMultiplier[] = [];
+  const streak = tierFactor(config?.xp_multipliers?.streak, context.streak);
+  const combo = tierFactor(
+    config?.xp_multipliers?.combo,
+    context.today === undefined ? undefined : context.today + 1,
+  );
+  const late = lateXpMultiplier(entry.created_at, config);
+
+  if (streak !== 1) {
+    multipliers.push({ id: "streak", label: "Streak", factor: streak });
+  }
+  if (combo !== 1) {
+    multipliers.push({ id: "combo", label: "Combo", factor: combo });
+  }
+  if (late !== 1) {
+    multipliers.push({ id: "late", label: "In ritardo", factor: late });
+  }
+
+  const subtotal = lines.reduce(
+    (sum, line) => (line.tentative ? sum : sum + line.xp),
+    0,
+  );
+  const factor = multipliers.reduce((acc, m) => acc * m.factor, 1);
+
+  return { lines, multipliers, total: Math.round(subtotal * factor) };
+}
+
+/**
+ * Adds flat bonuses (not affected by multipliers) to a breakdown; tentative
+ * ones are listed but stay out of the total.
+ */
+export function withBonuses(breakdown: XpBreakdown, bonuses: XpLine[]) {
+  if (!bonuses.length) return breakdown;
+
+  return {
+    ...breakdown,
+    bonuses: [...(breakdown.bonuses || []), ...bonuses],
+    total: bonuses.reduce(
+      (sum, line) => (line.tentative ? sum : sum + line.xp),
+      breakdown.total,
+    ),
+  };
+}
+
+/**
+ * Aligns an estimate with the XP the server actually awarded: tentative
+ * bonuses that explain the gap are confirmed, the rest is reported as a
+ * server-side adjustment.
+ */
+export function reconcileXp(breakdown: XpBreakdown, serverXp: number) {
+  let diff = serverXp - breakdown.total;
+
+  if (diff === 0) return breakdown;
+  const factor = breakdown.multipliers.reduce((acc, m) => acc * m.factor, 1);
+  const lines = breakdown.lines.map((line) => {
+    if (!line.tentative) return line;
+    const worth = Math.round(line.xp * factor);
+
+    if (diff > 0 && worth <= diff) {
+      diff -= worth;
+
+      return { ...line, tentative: false };
+    }
+
+    return line;
+  });
+
+  return {
+    ...breakdown,
+    lines,
+    adjustment: diff || undefined,
+    total: serverXp,
+  };
+}
+
+/** Breakdown of a stored log, reconciled with `xp_awarded` when known. */
+export function loggedXpBreakdown(
+  log: XpEntry & { xp_awarded?: number; lat?: number | null },
+  config?: GameConfig | null,
+) {
+  // Il ritardo non è ricostruibile a posteriori: resta nella correzione.
+  const estimate = xpBreakdown(
+    { consistency: log.consistency, size: log.size, location: log.location },
+    config,
+    { geoShared: log.lat !== null && log.lat !== undefined },
+  );
+
+  return typeof log.xp_awarded === "number"
+    ? reconcileXp(estimate, log.xp_awarded)
+    : estimate;
+}
+
+/** Adds `delta` XP to `progress`, rolling over into the next level. */
+export function addXp(progress: Progress | null, delta: number) {
+  if (!progress) return progress;
+  const inLevel = (progress.xp_in_level || 0) + delta;
+  const forNext = progress.xp_for_next || 0;
+  const levelUp = forNext > 0 && inLevel >= forNext;
+
+  return {
+    ...progress,
+    xp_total: (progress.xp_total || 0) + delta,
+    level: levelUp ? (progress.level || 0) + 1 : progress.level,
+    xp_in_level: levelUp ? inLevel - forNext : inLevel,
+  };
+}
@@ -0,0 +1,54 @@
+import type { XpLedgerEntry } from "@/types/api";
+import type { Progress } from "@/types/progress";
+
+export type LedgerRow = {
+  entry: XpLedgerEntry;
+  /** `xp_total` right after this transaction. */
+  total: number;
+  /** Level reached by this transaction, when it levelled up. */
+  levelUp?: number;
+};
+
+function entryTime(entry: XpLedgerEntry) {
+  const ms = new Date(entry.created_at).getTime();
+
+  return Number.isNaN(ms) ? 0 : ms;
+}
+
+/**
+ * Oldest-first rows with running totals. Without server snapshots the
+ * totals are anchored so the last row matches `current.xp_total`.
+ */
+export function buildLedger(
+  entries: XpLedgerEntry[],
+  current: Progress | null,
+): LedgerRow[] {
+  const sorted = [...entries].sort(
+    (a, b) => entryTime(a) - entryTime(b) || a.id - b.id,
+  );
+  const sum = sorted.reduce((acc, e) => acc + e.xp, 0);
+  // XP guadagnati prima dell'inizio del registro (storico non migrato).
+  let total = (current?.xp_total ?? sum) - sum;
+  let level: number | undefined;
+
+  return sorted.map((entry) => {
+    const snapshot = entry.progress;
+
+    total = snapshot?.xp_total ?? total + entry.xp;
+    let levelUp: number | undefined;
+
+    if (snapshot?.level !== undefined) {
+      const crossed =
+        level !== undefined
+          ? snapshot.level > level
+          : entry.xp > 0 &&
+            snapshot.xp_in_level !== undefined &&
+            snapshot.xp_in_level < entry.xp;
+
+      if (crossed) levelUp = snapshot.level;
+      level = snapshot.level;
+    }
+
+    return { entry, total, levelUp };
+  });
+}
@@ -0,0 +1,233 @@
+import type { AchievementDef, GameConfig } from "@/types/gamification";
+import type { Progress } from "@/types/progress";
+
+export type UserInfo = {
+  id: number;
+  username?: string;
+  name?: string;
+  photo_url?: string;
+};
+
+/** Stats as returned by the backend (field names vary between endpoints). */
+export type ApiStats = {
+  poops_today?: number;
+  poops_total?: number;
+  total_poops?: number;
+  total?: number;
+  streak_days?: number;
+  best_combo?: number;
+  /** Day (`YYYY-MM-DD`) of `best_combo`, on backends that track it. */
+  best_combo_day?: string;
+  consistency_counts?: Record<string, number>;
+  size_counts?: Record<string, number>;
+  location_counts?: Record<string, number>;
+};
+
+/** `unlocked_at` is only sent by backends that track unlock dates. */
+export type UnlockedAchievement = {
+  id: string;
+  unlocked_at?: string | null;
+};
+
+export type UserInfoResponse = {
+  user?: UserInfo;
+  progress?: Progress;
+  stats?: ApiStats;
+  achievements?: UnlockedAchievement[];
+  game_config?: GameConfig;
+};
+
+export type StreakRepairOffer = {
+  /** Length of the streak that was broken. */
+  streak_days: number;
+  cost_xp: number;
+  expires_at: string;
+};
+
+/** Streak-freeze tokens and the days they covered. */
+export type StreakState = {
+  freezes: number;
+  /** `YYYY-MM-DD` days covered by a token. */
+  frozen_days: string[];
+  /** A token is spent on its own when a day is missed. */
+  auto_freeze: boolean;
+  /** Set while a streak broken in the last hours can be bought back. */
+  repair?: StreakRepairOffer | null;
+};
+
+export type UserStatsResponse = {
+  progress?: Progress;
+  stats?: ApiStats;
+  achievements?: UnlockedAchievement[];
+  streak?: StreakState;
+};
+
+export type PoopVisibility = "public" | "private";
+
+export type PoopEntry = {
+  id: number;
+  user_id: number;
+  consistency: string;
+  size: string;
+  location: string;
+  note?: string | null;
+  /** Quick-tag ids from `GameConfig.notes.quick_tags`. */
+  tags?: string[] | null;
+  xp_awarded?: number;
+  lat?: number | null;
+  lng?: number | null;
+  accuracy?: number | null;
+  /** "private" logs are only shown on the author's own map. */
+  visibility?: PoopVisibility | null;
+  /** The author asked to appear as "Anonimo" on the public map. */
+  anonymous?: boolean | null;
+  /** Grid the coordinates were snapped to before upload (0 = exact). */
+  precision_m?: number | null;
+  created_at: string;
+};
+
+/** The author is taken from the initData auth header, never from the body. */
+export type CreatePoopPayload = {
+  consistency: string;
+  size: string;
+  location: string;
+  note?: string;
+  tags?: string[];
+  lat?: number;
+  lng?: number;
+  accuracy?: number;
+  visibility?: PoopVisibility;
+  anonymous?: boolean;
+  precision_m?: number;
+  /**
+   * Original log time: a backdate picked by the user, or the moment a log
+   * queued offline was made.
+   */
+  created_at?: string;
+  /**
+   * Set only for user backdates, so late-entry rules never hit a log that
+   * merely waited in the offline queue.
+   */
+  backdated?: boolean;
+  /** Idempotency key so replays never create duplicates. */
+  client_id?: string;
+  /** Quests this log completes as seen by the client; the server re-checks. */
+  quests?: QuestClaim[];
+};
+
+export type QuestClaim = {
+  id: string;
+  /** Day (`YYYY-MM-DD`) or ISO week (`YYYY-Www`) of the quest. */
+  period_key: string;
+};
+
+/** A quest bonus the server granted. */
+export type QuestReward = QuestClaim & {
+  xp: number;
+  title?: string;
+  emoji?: string;
+  completed_at?: string;
+};
+
+export type QuestHistoryResponse = {
+  completions?: QuestReward[];
+};
+
+export type CreatePoopResponse = {
+  /** The stored log; its id is what the undo snackbar deletes. */
+  poop?: PoopEntry;
+  xp_gain?: number;
+  progress?: Progress;
+  stats?: ApiStats;
+  unlocked_achievements?: AchievementDef[];
+  streak?: StreakState;
+  /** Quest bonuses granted for this log, already included in `xp_gain`. */
+  quest_rewards?: QuestReward[];
+};
+
+/** What the backend returns after a log is edited or deleted. */
+export type PoopMutationResponse = {
+  stats?: ApiStats;
+  progress?: Progress;
+  achievements?: UnlockedAchievement[];
+  streak?: StreakState;
+};
+
+export type DeletePoopResponse = PoopMutationResponse;
+
+/** Fields that can be changed on an existing log; `null` clears the note. */
+export type UpdatePoopPayload = {
+  consistency?: string;
+  size?: string;
+  location?: string;
+  note?: string | null;
+  tags?: string[];
+  created_at?: string;
+};
+
+export type UpdatePoopResponse = PoopMutationResponse & { poop?: PoopEntry };
+
+export type MonthlyPoopsResponse = { poops: PoopEntry[] };
+
+export type XpLedgerKind = "poop" | "achievement" | "deletion" | "adjustment";
+
+/** One XP transaction; `xp` is negative for deductions. */
+export type XpLedgerEntry = {
+  id: number;
+  kind: XpLedgerKind;
+  xp: number;
+  created_at: string;
+  /** The log that earned (or, once deleted, lost) the XP. */
+  poop?: PoopEntry | null;
+  achievement?: AchievementDef | null;
+  /** Progress right after this transaction, when the backend tracks it. */
+  progress?: Progress | null;
+  reason?: string | null;
+};
+
+export type XpLedgerResponse = {
+  entries: XpLedgerEntry[];
+  /** `null` once the ledger is exhausted; absent on backends without it. */
+  next_offset?: number | null;
+};
+
+/** How many players unlocked each achievement. */
+export type AchievementRarityResponse = {
+  players: number;
+  achievements: { id: string; unlocked: number }[];
+};
+
+export type BucketUser = {
+  user_id: number;
+  username?: string | null;
+  name?: string | null;
+  photo_url?: string | null;
+  total_poops: number;
+  total_xp: number;
+  mass_tons?: number;
+  poops: PoopEntry[];
+};
+
+export type BucketResponse = {
+  year: number;
+  total_mass_tons?: number;
+  users: BucketUser[];
+};
+
+export type GeoPoop = PoopEntry & {
+  lat: number;
+  lng: number;
+  xp_awarded: number;
+};
+
+export type GeoPoopWithUser = {
+  poop: GeoPoop;
+  /** Empty for anonymous logs of other users. */
+  username: string;
+};
+
+export type GeoCluster = {
+  lat: number;
+  lng: number;
+  poops: GeoPoopWithUser[];
+};
@@ -1,3 +1,156 @@
+export type OptionCfg = { label: string; emoji?: string; xp?: number };
+
+export type GeoRules = {
+  home_behavior?: string;
+  require_location_for_lat_lng?: boolean;
+};
+
+export type GeolocationConfig = {
+  enabled?: boolean;
+  accuracy?: "high" | "balanced" | "low" | string;
+  store_coordinates?: boolean;
+  fields?: string[];
+  allowed_locations?: string[];
+  blocked_locations?: string[];
+  rules?: GeoRules;
+  xp_bonus?: { new_place?: number; far_from_home?: number };
+  distance_thresholds?: { far_from_home_km?: number };
+};
+
+export type QuickTag = { id: string; label: string; emoji?: string };
+
+export type NotesConfig = {
+  enabled?: boolean;
+  max_length?: number;
+  quick_tags?: QuickTag[];
+};
+
+export type BackdateConfig = {
+  enabled?: boolean;
+  /** How far back a log can be recorded. */
+  max_days?: number;
+  /** Logs older than this still count as "on time". */
+  grace_minutes?: number;
+  /** XP multiplier applied to late logs (e.g. 0.5). */
+  late_xp_multiplier?: number;
+};
+
+export type XpTier = {
+  /** Threshold to reach: streak days, or logs today including this one. */
+  min: number;
+  factor: number;
+};
+
+export type XpMultipliersConfig = {
+  streak?: XpTier[];
+  combo?: XpTier[];
+};
+
+export type PrivacyConfig = {
+  /** Grid sizes (metres) offered for coordinate fuzzing; 0 = exact. */
+  grid_options_m?: number[];
+  default_grid_m?: number;
+  /** Default no-share radius around a sensitive place. */
+  exclusion_radius_m?: number;
+};
+
+/** A title unlocked from `level` onwards, with an optional reward. */
+export type LevelDef = {
+  level: number;
+  title: string;
+  emoji?: string;
+  /** Shown in the level-up modal, e.g. "Nuova skin del WC". */
+  reward?: string;
+};
+
+export type AchievementDef = {
+  id: string;
+  title?: string;
+  label?: string;
+  emoji?: string;
+  description?: string;
+  year?: number;
+  condition?: Record<string, unknown>;
+  hidden?: boolean;
+  /** Revealed on a hidden achievement once the player is close. */
+  hint?: string;
+};
+
+export type QuestPeriod = "daily" | "weekly";
+
+export type QuestDef = {
+  id: string;
+  period: QuestPeriod;
+  title: string;
+  emoji?: string;
+  description?: string;
+  /** Bonus XP once the condition holds within the period. */
+  xp: number;
+  /** Same shape as `AchievementDef.condition`, measured on the period's logs. */
+  condition: Record<string, unknown>;
+};
+
+export type QuestsConfig = {
+  pool?: QuestDef[];
+  /** Quests drawn from the pool for each day / week. */
+  daily_count?: number;
+  weekly_count?: number;
+};
+
+export type StreakFreezeConfig = {
+  /** One token every this many XP earned. */
+  xp_per_token?: number;
+  /** Tokens granted by unlocking an achievement, by achievement id. */
+  achievement_tokens?: Record<string, number>;
+  max_tokens?: number;
+};
+
+export type GameConfig = {
+  base_xp?: number;
+  consistency?: Record<string, OptionCfg>;
+  size?: Record<string, OptionCfg>;
+  location?: Record<string, OptionCfg>;
+  geolocation?: GeolocationConfig;
+  notes?: NotesConfig;
+  backdate?: BackdateConfig;
+  privacy?: PrivacyConfig;
+  xp_multipliers?: XpMultipliersConfig;
+  levels?: LevelDef[];
+  achievements?: AchievementDef[];
+  quests?: QuestsConfig;
+  streak_freeze?: StreakFreezeConfig;
+};
+
+export type Stats = {
+  today: number;
+  total: number;
+  streak: number;
+  combo: number;
+  /** Day (`YYYY-MM-DD`) the best combo was reached. */
+  comboDay?: string;
+  consistencyCounts?: Record<string, number>;
+  sizeCounts?: Record<string, number>;
+  locationCounts?: Record<string, number>;
+};
+
+/** Progress of one measurable goal inside an achievement condition. */
+export type ConditionProgress = {
+  label: string;
+  current: number;
+  target: number;
+  pct: number;
+  met: boolean;
+};
+
+export type GoalProgress = {
+  current: number;
+  target: number;
+  pct: number;
+  label: string;
+  /** One entry per goal when the condition combines several. */
+  parts?: ConditionProgress[];
+};
+
 export type AchievementCard = {
   id: string;
   title: string;
@@ -5,18 +158,46 @@ export type AchievementCard = {
   unlocked: boolean;
   description?: string;
   year?: number;
+  /** Locked achievement of a past season: it can no longer be earned. */
+  expired?: boolean;
   hidden?: boolean;
   condition?: Record<string, unknown>;
-  progress?: {
-    current: number;
-    target: number;
-    pct: number;
-    label: string;
-  };
+  unlocked_at?: string | null;
+  /** Share of players who unlocked it, 0–100. */
+  rarity_pct?: number;
+  /** Set only on hidden locked cards close to completion. */
+  hint?: string;
+  progress?: GoalProgress;
+};
+
+export type XpLine = {
+  id: string;
+  label: string;
+  emoji?: string;
+  xp: number;
+  /** Only the server can confirm it (e.g. new place): not in the total. */
+  tentative?: boolean;
+};
+
+export type XpMultiplier = {
+  id: string;
+  label: string;
+  factor: number;
+};
+
+export type XpBreakdown = {
+  lines: XpLine[];
+  multipliers: XpMultiplier[];
+  /** Flat bonuses added after the multipliers, e.g. completed quests. */
+  bonuses?: XpLine[];
+  /** Server XP the estimate could not explain, applied after multipliers. */
+  adjustment?: number;
+  total: number;
 };
 
 export type XpToastPayload = {
   delta: number;
+  breakdown?: XpBreakdown;
   level?: number;
   fillPercent?: number;
 };